@@ -9,6 +9,23 @@ module.exports = {
     'src/paths.ts',
     'src/embeddings.ts',
     'src/search.ts',
+    'src/lexical.ts',
+    'src/embedding-providers.ts',
+    'src/embedding-store.ts',
+    'src/ids.ts',
+    'src/encryption.ts',
+    'src/redaction.ts',
+    'src/frontmatter.ts',
+    'src/dates.ts',
+    'src/formatters.ts',
+    'src/resources.ts',
+    'src/prompts.ts',
+    'src/sections.ts',
+    'src/settings.ts',
+    'src/cli.ts',
+    'src/stats.ts',
+    'src/doctor.ts',
+    'src/export.ts',
     '!src/**/*.d.ts',
   ],
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
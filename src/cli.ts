@@ -0,0 +1,368 @@
+// ABOUTME: Command line interface: starts the MCP server or works with the journal from a terminal
+// ABOUTME: Parses subcommands and flags, loads the configuration and prints text or JSON results
+
+import * as path from 'path';
+import { JournalManager } from './journal.js';
+import { SearchService, SearchMode, SearchOptions } from './search.js';
+import { resolveProjectJournalPath } from './paths.js';
+import { JournalSettings, loadSettings } from './settings.js';
+import { getEmbeddingConfig, getEmbeddingStorageFormat, getSearchDefaults } from './config.js';
+import { loadSections, resolveSectionHeading } from './sections.js';
+import { loadSecretPatterns } from './redaction.js';
+import { parseDateRange } from './dates.js';
+import { formatRecentEntries, formatSearchResults, parseResultFormat } from './formatters.js';
+import { computeJournalStats, formatJournalStats } from './stats.js';
+import { formatDoctorReport, runDoctor } from './doctor.js';
+import { JournalExporter, parseExportFormat, renderJsonLines, renderMarkdown } from './export.js';
+
+export interface CommandLine {
+  command: string;
+  args: string[]; // Positional arguments after the subcommand
+  options: Record<string, string | true>; // Flags without their leading --
+  journalPath: string; // Project journal
+  settings: JournalSettings; // Overrides of config file settings and env vars
+}
+
+interface CliCommand {
+  name: string;
+  usage: string;
+  description: string;
+  run(commandLine: CommandLine): Promise<string | void>; // Returns what to print on stdout
+}
+
+// Command line flags that override config file settings and env vars
+const SETTING_FLAGS: Record<string, (settings: JournalSettings, value: string) => void> = {
+  'user-journal-path': (settings, value) => { settings.userJournalPath = path.resolve(value); },
+  'vault': (settings, value) => { settings.vault = value; },
+  'embedding-provider': (settings, value) => { settings.embedding = { ...settings.embedding, provider: value }; },
+  'embedding-model': (settings, value) => { settings.embedding = { ...settings.embedding, model: value }; },
+  'embedding-storage': (settings, value) => { settings.embedding = { ...settings.embedding, storage: value }; }
+};
+
+const VALUE_FLAGS = new Set([
+  'journal-path', 'format', 'limit', 'type', 'mode', 'since', 'until', 'days',
+  'project', 'agent', 'tags', 'sections', 'session', 'output', ...Object.keys(SETTING_FLAGS)
+]);
+const BOOLEAN_FLAGS = new Set(['stale-only', 'group-by-session', 'help']);
+
+const COMMANDS: CliCommand[] = [
+  {
+    name: 'serve',
+    usage: 'serve',
+    description: 'Start the MCP server on stdio (the default)',
+    async run({ journalPath }): Promise<void> {
+      console.error(`Starting private journal MCP server with project journal ${journalPath}`);
+      console.error('Run `private-journal-mcp doctor` to diagnose path and embedding problems.');
+
+      // Loaded on demand so the terminal commands don't pull in the MCP SDK
+      const { PrivateJournalServer } = await import('./server.js');
+      const server = new PrivateJournalServer(journalPath);
+      await server.run();
+    }
+  },
+  {
+    name: 'search',
+    usage: 'search <query> [--mode semantic|keyword|hybrid] [--limit N] [filters] [--format text|json]',
+    description: 'Search entries by meaning and keywords',
+    async run(commandLine): Promise<string> {
+      const query = commandLine.args.join(' ').trim();
+      if (!query) {
+        throw new Error('search needs a query');
+      }
+
+      const { options } = commandLine;
+      const mode = options.mode ?? 'hybrid';
+      if (mode !== 'semantic' && mode !== 'keyword' && mode !== 'hybrid') {
+        throw new Error("--mode must be 'semantic', 'keyword' or 'hybrid'");
+      }
+      const format = parseResultFormat(options.format);
+      const searchOptions: SearchOptions = {
+        ...await readFilters(commandLine),
+        limit: readLimit(commandLine, getSearchDefaults().limit),
+        minScore: getSearchDefaults().minScore,
+        mode: mode as SearchMode,
+        dateRange: parseDateRange(readOption(commandLine, 'since'), readOption(commandLine, 'until'))
+      };
+
+      const results = await new SearchService(commandLine.journalPath).search(query, searchOptions);
+      return formatSearchResults(results, format);
+    }
+  },
+  {
+    name: 'list',
+    usage: 'list [--days N | --since DATE --until DATE] [--limit N] [--group-by-session] [filters] [--format text|json]',
+    description: 'List recent entries, most recent first',
+    async run(commandLine): Promise<string> {
+      const { limit, days } = getSearchDefaults();
+      const format = parseResultFormat(commandLine.options.format);
+      const windowDays = readLimit(commandLine, days, 'days');
+      const since = readOption(commandLine, 'since');
+      const until = readOption(commandLine, 'until');
+      // --days only applies when no explicit window is given
+      const dateRange = parseDateRange(since ?? (until ? undefined : `${windowDays}d`), until);
+      const period = since || until ? `${since ?? 'the beginning'} to ${until ?? 'now'}` : `last ${windowDays} days`;
+
+      const results = await new SearchService(commandLine.journalPath).listRecent({
+        ...await readFilters(commandLine),
+        limit: readLimit(commandLine, limit),
+        dateRange
+      });
+      return formatRecentEntries(results, period, format, commandLine.options['group-by-session'] === true);
+    }
+  },
+  {
+    name: 'show',
+    usage: 'show <id|ref|path> [--format text|json]',
+    description: 'Print the full markdown of an entry',
+    async run(commandLine): Promise<string> {
+      const entry = commandLine.args[0];
+      if (!entry) {
+        throw new Error('show needs an entry ID, reference or path');
+      }
+      const format = parseResultFormat(commandLine.options.format);
+
+      const text = await new SearchService(commandLine.journalPath).readEntry(entry);
+      if (text === null) {
+        throw new Error(`Entry not found: ${entry}`);
+      }
+      return format === 'json' ? JSON.stringify({ entry, text }, null, 2) : text;
+    }
+  },
+  {
+    name: 'reindex',
+    usage: 'reindex [--stale-only]',
+    description: 'Regenerate embeddings, or only missing and stale ones',
+    async run(commandLine): Promise<string> {
+      const journalManager = new JournalManager(commandLine.journalPath);
+      // Same as server startup, so a packed index doesn't sit beside leftover .embedding files
+      const migrated = await journalManager.migrateEmbeddingStorage();
+      const count = commandLine.options['stale-only'] === true
+        ? await journalManager.generateMissingEmbeddings()
+        : await journalManager.reindex();
+      const summary = `Regenerated embeddings for ${count} journal entries.`;
+      return migrated > 0 ? `Migrated ${migrated} embeddings to the packed index.\n${summary}` : summary;
+    }
+  },
+  {
+    name: 'stats',
+    usage: 'stats [--type project|user|both] [filters] [--format text|json]',
+    description: 'Summarize entry counts, dates, sections, tags and projects',
+    async run(commandLine): Promise<string> {
+      const format = parseResultFormat(commandLine.options.format);
+      const results = await new SearchService(commandLine.journalPath).listRecent({
+        ...await readFilters(commandLine),
+        limit: Infinity,
+        dateRange: parseDateRange(readOption(commandLine, 'since'), readOption(commandLine, 'until'))
+      });
+      return formatJournalStats(computeJournalStats(results), format);
+    }
+  },
+  {
+    name: 'export',
+    usage: 'export <markdown|jsonl|html> [--output PATH] [--since DATE --until DATE] [--type project|user|both] [--project NAME] [--sections a,b]',
+    description: 'Export entries, oldest first, to markdown, JSON Lines or a static HTML site',
+    async run(commandLine): Promise<string> {
+      const format = parseExportFormat(commandLine.args[0]);
+      const output = readOption(commandLine, 'output');
+      const { type, project, sections } = await readFilters(commandLine);
+      const filters = {
+        type,
+        project,
+        sections,
+        dateRange: parseDateRange(readOption(commandLine, 'since'), readOption(commandLine, 'until'))
+      };
+      const exporter = new JournalExporter(new SearchService(commandLine.journalPath));
+
+      if (!output) {
+        if (format === 'html') {
+          throw new Error('html export needs --output, the directory to write the site to');
+        }
+        const entries = await exporter.collect(filters);
+        return (format === 'jsonl' ? renderJsonLines(entries) : renderMarkdown(entries)).trimEnd();
+      }
+
+      const result = await exporter.export(format, path.resolve(output), filters);
+      return `Exported ${result.entries} entries to ${path.resolve(output)}.`;
+    }
+  },
+  {
+    name: 'doctor',
+    usage: 'doctor [--format text|json]',
+    description: 'Check journal paths, Obsidian vaults, the embedding model and embeddings',
+    async run(commandLine): Promise<string> {
+      const format = parseResultFormat(commandLine.options.format);
+      return formatDoctorReport(await runDoctor(commandLine.journalPath), format);
+    }
+  },
+  {
+    name: 'encrypt',
+    usage: 'encrypt',
+    description: 'Encrypt existing plaintext user journal entries with the configured key',
+    async run({ journalPath }): Promise<string> {
+      const count = await new JournalManager(journalPath).encryptUserJournal();
+      return `Encrypted ${count} user journal entries.`;
+    }
+  }
+];
+
+/**
+ * Splits the arguments into a subcommand, positional arguments and flags.
+ * Without a subcommand the server is started.
+ * @throws on unknown or incomplete flags
+ */
+export function parseCommandLine(argv: string[]): CommandLine {
+  const args: string[] = [];
+  const options: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      args.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      options[name] = true;
+    } else if (VALUE_FLAGS.has(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined) {
+        throw new Error(`--${name} needs a value`);
+      }
+      options[name] = value;
+    } else {
+      throw new Error(`Unknown option --${name}`);
+    }
+  }
+
+  const settings: JournalSettings = {};
+  for (const [name, apply] of Object.entries(SETTING_FLAGS)) {
+    const value = options[name];
+    if (typeof value === 'string') {
+      apply(settings, value);
+    }
+  }
+
+  const journalPath = options['journal-path'];
+  return {
+    command: args.shift() ?? 'serve',
+    args,
+    options,
+    // Use shared path resolution logic
+    journalPath: typeof journalPath === 'string' ? path.resolve(journalPath) : resolveProjectJournalPath(),
+    settings
+  };
+}
+
+/**
+ * Runs the command line: loads the configuration, then the subcommand.
+ * @returns the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let commandLine: CommandLine;
+  try {
+    commandLine = parseCommandLine(argv);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${usage()}`);
+    return 1;
+  }
+
+  if (commandLine.command === 'help' || commandLine.options.help === true) {
+    console.log(usage());
+    return 0;
+  }
+
+  const command = COMMANDS.find(candidate => candidate.name === commandLine.command);
+  if (!command) {
+    console.error(`Unknown command: ${commandLine.command}\n\n${usage()}`);
+    return 1;
+  }
+
+  try {
+    await loadConfiguration(commandLine);
+  } catch (error) {
+    console.error('Invalid configuration:', error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  try {
+    const output = await command.run(commandLine);
+    if (output !== undefined) {
+      console.log(output);
+    }
+    return 0;
+  } catch (error) {
+    console.error(`Failed to run ${command.name}:`, error instanceof Error ? error.message : error);
+    return 1;
+  }
+}
+
+export function usage(): string {
+  const width = Math.max(...COMMANDS.map(command => command.name.length));
+  return [
+    'Usage: private-journal-mcp [command] [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.description}`),
+    '',
+    ...COMMANDS.map(command => `  private-journal-mcp ${command.usage}`),
+    '',
+    'Filters: --type project|user|both, --project NAME, --agent NAME, --tags a,b, --sections a,b, --session ID',
+    'Dates: --since and --until take ISO dates, offsets like 7d, or periods like "last week"',
+    'Global options: --journal-path DIR, --user-journal-path DIR, --vault NAME,',
+    '  --embedding-provider NAME, --embedding-model NAME, --embedding-storage json|packed'
+  ].join('\n');
+}
+
+/**
+ * Loads the config files and checks every setting, so configuration mistakes
+ * are reported at startup rather than on the first tool call.
+ */
+async function loadConfiguration({ journalPath, settings }: CommandLine): Promise<void> {
+  const files = await loadSettings(journalPath, settings);
+  for (const file of files) {
+    console.error(`Loaded config file: ${file}`);
+  }
+
+  getEmbeddingConfig();
+  getEmbeddingStorageFormat();
+  await loadSections();
+  await loadSecretPatterns();
+}
+
+function readOption(commandLine: CommandLine, name: string): string | undefined {
+  const value = commandLine.options[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function readLimit(commandLine: CommandLine, fallback: number, name: string = 'limit'): number {
+  const value = readOption(commandLine, name);
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value) || parseInt(value, 10) <= 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parseInt(value, 10);
+}
+
+// Section filters may use a section's name; entries only contain its heading
+async function readFilters(commandLine: CommandLine): Promise<SearchOptions> {
+  const type = readOption(commandLine, 'type') ?? 'both';
+  if (type !== 'project' && type !== 'user' && type !== 'both') {
+    throw new Error("--type must be 'project', 'user' or 'both'");
+  }
+  const list = (name: string): string[] | undefined =>
+    readOption(commandLine, name)?.split(',').map(item => item.trim()).filter(Boolean);
+
+  const sections = list('sections');
+  const registry = sections ? await loadSections() : [];
+  return {
+    type,
+    project: readOption(commandLine, 'project'),
+    agent: readOption(commandLine, 'agent'),
+    session: readOption(commandLine, 'session'),
+    tags: list('tags'),
+    sections: sections?.map(section => resolveSectionHeading(section, registry))
+  };
+}
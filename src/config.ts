@@ -3,7 +3,9 @@
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
 import { resolveJournalPath } from './paths.js';
+import { findSetting, getSettings, resolveSetting } from './settings.js';
 
 export function getObsidianConfigPath(): string {
   // Windows: use APPDATA
@@ -62,31 +64,98 @@ export async function getObsidianVaults(configPath?: string): Promise<ObsidianVa
 }
 
 export function isObsidianMode(): boolean {
-  const vaultName = process.env.AGENTIC_JOURNAL_VAULT;
+  const vaultName = resolveSetting('AGENTIC_JOURNAL_VAULT', settings => settings.vault);
   return Boolean(vaultName && vaultName.trim().length > 0);
 }
 
-export async function getUserJournalPath(obsidianConfigPath?: string): Promise<string> {
+export interface UserJournalLocation {
+  path: string;
+  source: string; // How the path was chosen, e.g. "Obsidian vault Notes"
+  warning?: string; // Set when a configured location couldn't be used
+}
+
+/**
+ * Resolves the user journal directory and records how it was chosen: an
+ * explicit path, then an Obsidian vault, then ~/.private-journal.
+ */
+export async function resolveUserJournalLocation(obsidianConfigPath?: string): Promise<UserJournalLocation> {
   // Priority 1: Explicit path override
-  if (process.env.AGENTIC_JOURNAL_PATH) {
-    return process.env.AGENTIC_JOURNAL_PATH;
+  const journalPath = findSetting('AGENTIC_JOURNAL_PATH', settings => settings.userJournalPath);
+  if (journalPath) {
+    return { path: journalPath.value, source: `explicit path (${journalPath.source})` };
   }
 
   // Priority 2: Obsidian vault
-  const vaultName = process.env.AGENTIC_JOURNAL_VAULT;
-  if (vaultName && vaultName.trim().length > 0) {
+  const vault = findSetting('AGENTIC_JOURNAL_VAULT', settings => settings.vault);
+  let warning: string | undefined;
+  if (vault && vault.value.trim().length > 0) {
     const vaults = await getObsidianVaults(obsidianConfigPath);
-    const vaultPath = vaults[vaultName];
+    const vaultPath = vaults[vault.value];
 
     if (vaultPath) {
-      return path.join(vaultPath, 'agentic-journal');
+      return { path: path.join(vaultPath, 'agentic-journal'), source: `Obsidian vault "${vault.value}" (${vault.source})` };
     }
 
-    console.error(`Warning: Obsidian vault "${vaultName}" not found, using default path`);
+    warning = `Obsidian vault "${vault.value}" not found, using default path`;
   }
 
   // Priority 3: Default behavior
-  return resolveJournalPath('.private-journal', false);
+  return { path: resolveJournalPath('.private-journal', false), source: 'default location in the home directory', warning };
+}
+
+export async function getUserJournalPath(obsidianConfigPath?: string): Promise<string> {
+  const location = await resolveUserJournalLocation(obsidianConfigPath);
+  if (location.warning) {
+    console.error(`Warning: ${location.warning}`);
+  }
+  return location.path;
+}
+
+export type EmbeddingProviderName = 'transformers' | 'hashing' | 'openai';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  dimensions?: number;
+}
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderName, string> = {
+  transformers: 'Xenova/all-MiniLM-L6-v2',
+  hashing: 'hashing',
+  openai: 'text-embedding-3-small'
+};
+
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const provider = (resolveSetting('AGENTIC_JOURNAL_EMBEDDING_PROVIDER', settings => settings.embedding?.provider) || 'transformers')
+    .trim().toLowerCase();
+  if (!(provider in DEFAULT_EMBEDDING_MODELS)) {
+    throw new Error(
+      `Unknown embedding provider "${provider}" in AGENTIC_JOURNAL_EMBEDDING_PROVIDER (expected transformers, hashing or openai)`
+    );
+  }
+
+  const configuredDimensions = resolveSetting('AGENTIC_JOURNAL_EMBEDDING_DIMENSIONS', settings => settings.embedding?.dimensions);
+  const dimensions = configuredDimensions ? parseInt(configuredDimensions, 10) : undefined;
+  if (dimensions !== undefined && (isNaN(dimensions) || dimensions <= 0)) {
+    throw new Error('AGENTIC_JOURNAL_EMBEDDING_DIMENSIONS must be a positive integer');
+  }
+  if (dimensions !== undefined && provider === 'transformers') {
+    throw new Error('AGENTIC_JOURNAL_EMBEDDING_DIMENSIONS is only supported by the hashing and openai providers');
+  }
+
+  const name = provider as EmbeddingProviderName;
+  return {
+    provider: name,
+    model: resolveSetting('AGENTIC_JOURNAL_EMBEDDING_MODEL', settings => settings.embedding?.model) || DEFAULT_EMBEDDING_MODELS[name],
+    baseUrl: resolveSetting('AGENTIC_JOURNAL_EMBEDDING_URL', settings => settings.embedding?.url)
+      || (name === 'openai' ? DEFAULT_OPENAI_BASE_URL : undefined),
+    apiKey: resolveSetting('AGENTIC_JOURNAL_EMBEDDING_API_KEY', settings => settings.embedding?.apiKey),
+    dimensions
+  };
 }
 
 export function getEmbeddingCachePath(): string {
@@ -121,6 +190,88 @@ export function getEmbeddingPathForFile(mdPath: string, isUserJournal: boolean):
   return mdPath.replace(/\.md$/, '.embedding');
 }
 
+export type EmbeddingStorageFormat = 'json' | 'packed';
+
+export function getEmbeddingStorageFormat(): EmbeddingStorageFormat {
+  const format = (resolveSetting('AGENTIC_JOURNAL_EMBEDDING_STORAGE', settings => settings.embedding?.storage) || 'json')
+    .trim().toLowerCase();
+  if (format !== 'json' && format !== 'packed') {
+    throw new Error(`Unknown embedding storage "${format}" in AGENTIC_JOURNAL_EMBEDDING_STORAGE (expected json or packed)`);
+  }
+  return format;
+}
+
+export function getPackedIndexPath(journalPath: string, isUserJournal: boolean): string {
+  // Obsidian user journals keep their index in the local cache, like per-file embeddings
+  if (isUserJournal && isObsidianMode()) {
+    const cachePath = getEmbeddingCachePath();
+    if (process.env.LOCALAPPDATA) {
+      return path.win32.join(cachePath, 'embeddings.pack');
+    }
+    return path.posix.join(cachePath, 'embeddings.pack');
+  }
+
+  return path.join(journalPath, 'embeddings.pack');
+}
+
+export interface SearchDefaults {
+  limit: number; // Results per search and entries per listing
+  minScore: number;
+  days: number; // Window of list_recent_entries
+}
+
+/**
+ * Defaults for tool arguments the agent leaves out, from the search block of
+ * the config file.
+ */
+export function getSearchDefaults(): SearchDefaults {
+  const search = getSettings().search;
+  return {
+    limit: search?.limit ?? 10,
+    minScore: search?.minScore ?? 0.1,
+    days: search?.days ?? 30
+  };
+}
+
+/**
+ * Whether a tool is offered to agents, per the tools block of the config file.
+ */
+export function isToolEnabled(name: string): boolean {
+  const tools = getSettings().tools;
+  if (tools?.enabled && !tools.enabled.includes(name)) {
+    return false;
+  }
+  return !tools?.disabled?.includes(name);
+}
+
+/**
+ * Secret that user journal encryption keys are derived from, taken from
+ * AGENTIC_JOURNAL_KEY or the file named by AGENTIC_JOURNAL_KEYFILE.
+ * @returns null when encryption is not configured
+ */
+export function getEncryptionKeyMaterial(): string | null {
+  const key = process.env.AGENTIC_JOURNAL_KEY?.trim();
+  if (key) {
+    return key;
+  }
+
+  const keyFile = process.env.AGENTIC_JOURNAL_KEYFILE?.trim();
+  if (!keyFile) {
+    return null;
+  }
+
+  let material: string;
+  try {
+    material = readFileSync(keyFile, 'utf8').trim();
+  } catch (error) {
+    throw new Error(`Failed to read encryption keyfile ${keyFile}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!material) {
+    throw new Error(`Encryption keyfile ${keyFile} is empty`);
+  }
+  return material;
+}
+
 export async function getProjectInfo(projectPath?: string): Promise<string> {
   const cwd = projectPath || process.cwd();
 
@@ -0,0 +1,139 @@
+// ABOUTME: Parses the since/until arguments of journal tools into a date range
+// ABOUTME: Accepts ISO dates, relative offsets like 7d and named periods like last week, in local time
+
+export interface DateRange {
+  start?: Date;
+  end?: Date;
+}
+
+type Bound = 'start' | 'end';
+
+const RELATIVE_PATTERN = /^(\d+)\s*(h|d|w|m|y)$/;
+const PERIOD_PATTERN = /^(this|last)\s+(week|month|year)$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses one bound of a date range. Calendar forms resolve to the start of
+ * their period for `since` and to its end for `until`, so `since: 'last month',
+ * until: 'last month'` covers exactly last month. Days and weeks (starting
+ * Monday) follow the local timezone.
+ * @param value - ISO date or date-time, relative offset (7d, 12h, 2w, 3m, 1y),
+ * today, yesterday, or this/last week, month or year
+ * @param bound - Whether the value is the start (since) or end (until) of the range
+ * @param now - Reference time for relative values
+ * @throws if the value is not in a supported form
+ */
+export function parseDateBound(value: string, bound: Bound, now: Date = new Date()): Date {
+  const text = value.trim().toLowerCase();
+
+  const relative = text.match(RELATIVE_PATTERN);
+  if (relative) {
+    return subtract(now, parseInt(relative[1], 10), relative[2]);
+  }
+
+  if (text === 'now') {
+    return new Date(now);
+  }
+  if (text === 'today' || text === 'yesterday') {
+    const day = startOfDay(now);
+    if (text === 'yesterday') {
+      day.setDate(day.getDate() - 1);
+    }
+    return bound === 'start' ? day : endOf(day, 'day');
+  }
+
+  const period = text.match(PERIOD_PATTERN);
+  if (period) {
+    const unit = period[2] as 'week' | 'month' | 'year';
+    const start = startOf(now, unit);
+    if (period[1] === 'last') {
+      shift(start, unit, -1);
+    }
+    return bound === 'start' ? start : endOf(start, unit);
+  }
+
+  const isoDate = text.match(ISO_DATE_PATTERN);
+  if (isoDate) {
+    const day = new Date(Number(isoDate[1]), Number(isoDate[2]) - 1, Number(isoDate[3]));
+    if (day.getDate() !== Number(isoDate[3])) {
+      throw new Error(invalidDateMessage(value));
+    }
+    return bound === 'start' ? day : endOf(day, 'day');
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}t/.test(text)) {
+    const instant = new Date(value.trim());
+    if (!Number.isNaN(instant.getTime())) {
+      return instant;
+    }
+  }
+
+  throw new Error(invalidDateMessage(value));
+}
+
+/**
+ * Builds the date range for a pair of optional since/until arguments.
+ * @throws if either value is invalid or the range ends before it starts
+ */
+export function parseDateRange(since?: string, until?: string, now: Date = new Date()): DateRange {
+  const range: DateRange = {
+    start: since ? parseDateBound(since, 'start', now) : undefined,
+    end: until ? parseDateBound(until, 'end', now) : undefined
+  };
+
+  if (range.start && range.end && range.start > range.end) {
+    throw new Error(`Invalid date range: "${since}" is after "${until}"`);
+  }
+  return range;
+}
+
+function invalidDateMessage(value: string): string {
+  return `Invalid date "${value}": use an ISO date (2025-12-22), a relative form (12h, 7d, 2w, 3m, 1y), ` +
+    'today, yesterday, or this/last week, month or year';
+}
+
+function subtract(now: Date, amount: number, unit: string): Date {
+  const date = new Date(now);
+  switch (unit) {
+    case 'h': date.setHours(date.getHours() - amount); break;
+    case 'd': date.setDate(date.getDate() - amount); break;
+    case 'w': date.setDate(date.getDate() - amount * 7); break;
+    case 'm': date.setMonth(date.getMonth() - amount); break;
+    case 'y': date.setFullYear(date.getFullYear() - amount); break;
+  }
+  return date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function startOf(date: Date, unit: 'week' | 'month' | 'year'): Date {
+  switch (unit) {
+    case 'week': {
+      const day = startOfDay(date);
+      day.setDate(day.getDate() - ((day.getDay() + 6) % 7)); // Back to Monday
+      return day;
+    }
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'year':
+      return new Date(date.getFullYear(), 0, 1);
+  }
+}
+
+function shift(date: Date, unit: 'day' | 'week' | 'month' | 'year', amount: number): void {
+  switch (unit) {
+    case 'day': date.setDate(date.getDate() + amount); break;
+    case 'week': date.setDate(date.getDate() + amount * 7); break;
+    case 'month': date.setMonth(date.getMonth() + amount); break;
+    case 'year': date.setFullYear(date.getFullYear() + amount); break;
+  }
+}
+
+// Last millisecond of the period starting at `start`
+function endOf(start: Date, unit: 'day' | 'week' | 'month' | 'year'): Date {
+  const next = new Date(start);
+  shift(next, unit, 1);
+  return new Date(next.getTime() - 1);
+}
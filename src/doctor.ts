@@ -0,0 +1,183 @@
+// ABOUTME: Diagnoses journal setup: resolved paths, Obsidian vaults, embedding model and index health
+// ABOUTME: Shared by the doctor command and the journal_status tool
+
+import * as fs from 'fs/promises';
+import { constants } from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_OPENAI_BASE_URL,
+  getEmbeddingCachePath,
+  getEmbeddingConfig,
+  getObsidianConfigPath,
+  getObsidianVaults,
+  isObsidianMode,
+  resolveUserJournalLocation
+} from './config.js';
+import { resolveProjectJournalPath } from './paths.js';
+import { getLoadedSettingsFiles, resolveSetting } from './settings.js';
+import { findCachedModel } from './embedding-providers.js';
+import { JournalManager } from './journal.js';
+import { ResultFormat } from './formatters.js';
+
+export type CheckStatus = 'ok' | 'warning' | 'error';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  warnings: number;
+  errors: number;
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = { ok: '[ok]', warning: '[warn]', error: '[error]' };
+
+/**
+ * Runs every check. A check that fails unexpectedly is reported as an error
+ * rather than stopping the others.
+ * @param projectJournalPath - project journal the server or command uses
+ */
+export async function runDoctor(projectJournalPath: string): Promise<DoctorReport> {
+  const userJournal = await resolveUserJournalLocation();
+  const checks: DoctorCheck[] = [];
+
+  const run = async (name: string, check: () => Promise<Omit<DoctorCheck, 'name'> | Array<DoctorCheck>>): Promise<void> => {
+    try {
+      const result = await check();
+      checks.push(...(Array.isArray(result) ? result : [{ name, ...result }]));
+    } catch (error) {
+      checks.push({ name, status: 'error', detail: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  await run('Config files', async () => {
+    const files = getLoadedSettingsFiles();
+    return { status: 'ok', detail: files.length > 0 ? files.join(', ') : 'none; using environment variables and defaults' };
+  });
+
+  await run('Project journal', async () => checkProjectJournal(projectJournalPath));
+
+  await run('User journal', async () => ({
+    status: userJournal.warning ? 'warning' : 'ok',
+    detail: `${userJournal.path} (${userJournal.source})${userJournal.warning ? `; ${userJournal.warning}` : ''}`
+  }));
+
+  await run('Obsidian vaults', checkObsidianVaults);
+  await run('Embedding model', checkEmbeddingModel);
+
+  await run('Embeddings', async () => {
+    const health = await new JournalManager(projectJournalPath, userJournal.path).checkEmbeddings();
+    return health.map(({ type, entries, missing, stale, orphaned }) => ({
+      name: `Embeddings (${type})`,
+      status: missing + stale + orphaned > 0 ? 'warning' as const : 'ok' as const,
+      detail: `${entries} entries, ${missing} missing, ${stale} stale, ${orphaned} orphaned` +
+        (missing + stale + orphaned > 0 ? '; run reindex_journal with stale_only, or `private-journal-mcp reindex --stale-only`' : '')
+    }));
+  });
+
+  await run('Write access (project)', async () => checkWritable(projectJournalPath));
+  await run('Write access (user)', async () => checkWritable(userJournal.path));
+  if (isObsidianMode()) {
+    await run('Write access (embedding cache)', async () => checkWritable(getEmbeddingCachePath()));
+  }
+
+  return {
+    checks,
+    warnings: checks.filter(check => check.status === 'warning').length,
+    errors: checks.filter(check => check.status === 'error').length
+  };
+}
+
+export function formatDoctorReport(report: DoctorReport, format: ResultFormat = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const width = Math.max(...Object.values(STATUS_LABELS).map(label => label.length));
+  return [
+    `Journal status: ${report.warnings} ${report.warnings === 1 ? 'warning' : 'warnings'}, ` +
+    `${report.errors} ${report.errors === 1 ? 'error' : 'errors'}`,
+    '',
+    ...report.checks.map(check => `${STATUS_LABELS[check.status].padEnd(width)} ${check.name}: ${check.detail}`)
+  ].join('\n');
+}
+
+async function checkProjectJournal(journalPath: string): Promise<Omit<DoctorCheck, 'name'>> {
+  if (path.resolve(journalPath) !== path.resolve(resolveProjectJournalPath())) {
+    return { status: 'ok', detail: `${journalPath} (set with --journal-path)` };
+  }
+
+  let cwd: string | undefined;
+  try {
+    cwd = process.cwd();
+  } catch {
+    // Reported below as a fallback
+  }
+  return cwd && path.dirname(journalPath) === cwd
+    ? { status: 'ok', detail: `${journalPath} (working directory)` }
+    : { status: 'warning', detail: `${journalPath} (fallback location; the working directory ${cwd ?? 'is unavailable'} can't hold a journal)` };
+}
+
+async function checkObsidianVaults(): Promise<Omit<DoctorCheck, 'name'>> {
+  const configPath = getObsidianConfigPath();
+  const vaults = await getObsidianVaults(configPath);
+  const names = Object.keys(vaults);
+  const found = names.length > 0 ? `found ${names.join(', ')} in ${configPath}` : `none found in ${configPath}`;
+
+  const vault = resolveSetting('AGENTIC_JOURNAL_VAULT', settings => settings.vault)?.trim();
+  if (!vault) {
+    return { status: 'ok', detail: `not in use; ${found}` };
+  }
+  return vaults[vault]
+    ? { status: 'ok', detail: `using "${vault}" at ${vaults[vault]}; ${found}` }
+    : { status: 'error', detail: `configured vault "${vault}" not found; ${found}` };
+}
+
+async function checkEmbeddingModel(): Promise<Omit<DoctorCheck, 'name'>> {
+  const config = getEmbeddingConfig();
+  const name = `${config.provider}:${config.model}`;
+
+  if (config.provider === 'hashing') {
+    return { status: 'ok', detail: `${name} (needs no model files)` };
+  }
+  if (config.provider === 'openai') {
+    return !config.apiKey && config.baseUrl === DEFAULT_OPENAI_BASE_URL
+      ? { status: 'warning', detail: `${name} at ${config.baseUrl}, but no API key is set` }
+      : { status: 'ok', detail: `${name} at ${config.baseUrl} (not contacted)` };
+  }
+
+  // Only look for the files: loading them would put another copy of the model in memory
+  const cached = await findCachedModel(config.model);
+  return cached
+    ? { status: 'ok', detail: `${name} is in the local model cache at ${cached}` }
+    : { status: 'warning', detail: `${name} is not in the local model cache and will be downloaded on first use` };
+}
+
+// Directories are created on first write, so check the nearest one that exists
+async function checkWritable(directory: string): Promise<Omit<DoctorCheck, 'name'>> {
+  let existing = path.resolve(directory);
+  while (!await exists(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+
+  try {
+    await fs.access(existing, constants.W_OK);
+  } catch {
+    return { status: 'error', detail: `${existing} is not writable` };
+  }
+  return existing === path.resolve(directory)
+    ? { status: 'ok', detail: `${directory} is writable` }
+    : { status: 'ok', detail: `${directory} doesn't exist yet; ${existing} is writable` };
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
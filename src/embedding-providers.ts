@@ -0,0 +1,172 @@
+// ABOUTME: Interchangeable backends that turn text into embedding vectors
+// ABOUTME: Local transformers pipeline, deterministic hashing, and OpenAI-compatible HTTP APIs
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { env, pipeline, FeatureExtractionPipeline } from '@xenova/transformers';
+import { EmbeddingConfig, DEFAULT_OPENAI_BASE_URL } from './config.js';
+import { tokenize } from './lexical.js';
+
+export interface EmbeddingProvider {
+  /** Identifies provider and model; stored with every embedding, e.g. `transformers:Xenova/all-MiniLM-L6-v2` */
+  readonly id: string;
+  initialize(): Promise<void>;
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Runs a sentence-transformers model locally through @xenova/transformers.
+ */
+export class TransformersProvider implements EmbeddingProvider {
+  readonly id: string;
+  private extractor: FeatureExtractionPipeline | null = null;
+
+  constructor(private readonly modelName: string) {
+    this.id = `transformers:${modelName}`;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      console.error(`Loading embedding model ${this.modelName}...`);
+      this.extractor = await pipeline('feature-extraction', this.modelName);
+      console.error('Embedding model loaded successfully');
+    } catch (error) {
+      console.error('Failed to load embedding model:', error);
+      throw error;
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    if (!this.extractor) {
+      throw new Error('Embedding model not initialized');
+    }
+
+    const result = await this.extractor(text, { pooling: 'mean', normalize: true });
+    return Array.from(result.data);
+  }
+}
+
+/**
+ * Finds a transformers model in the local model directory or the download
+ * cache without loading it.
+ * @returns directory holding the model files, or null if it would be downloaded on first use
+ */
+export async function findCachedModel(modelName: string): Promise<string | null> {
+  const bases = [env.allowLocalModels ? env.localModelPath : undefined, env.cacheDir]
+    .filter((base): base is string => Boolean(base));
+
+  for (const base of bases) {
+    const directory = path.join(base, modelName);
+    try {
+      await fs.access(path.join(directory, 'config.json'));
+      if ((await fs.readdir(path.join(directory, 'onnx'))).some(file => file.endsWith('.onnx'))) {
+        return directory;
+      }
+    } catch {
+      // Not in this location
+    }
+  }
+  return null;
+}
+
+/**
+ * Feature-hashes tokens into a fixed-size vector. Needs no model download, so
+ * it suits tests and air-gapped machines; it matches shared words, not meaning.
+ */
+export class HashingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number = 384) {
+    this.id = `hashing:${dimensions}`;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const token of tokenize(text)) {
+      const hash = fnv1a(token);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+/**
+ * Calls any server implementing the OpenAI `/embeddings` endpoint, including
+ * local ones such as Ollama, LM Studio or llama.cpp.
+ */
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+    private readonly dimensions?: number
+  ) {
+    this.id = dimensions ? `openai:${model}:${dimensions}` : `openai:${model}`;
+  }
+
+  async initialize(): Promise<void> {
+    // Connection problems surface on the first request
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(this.dimensions
+        ? { model: this.model, input: text, dimensions: this.dimensions }
+        : { model: this.model, input: text })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request to ${this.baseUrl} failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as { data?: Array<{ embedding?: number[] }> };
+    const embedding = body.data?.[0]?.embedding;
+    if (!Array.isArray(embedding)) {
+      throw new Error(`Embedding response from ${this.baseUrl} did not contain a vector`);
+    }
+    // Servers that ignore the dimensions parameter would otherwise mix vector sizes in the index
+    if (this.dimensions && embedding.length !== this.dimensions) {
+      throw new Error(
+        `Embedding response from ${this.baseUrl} has ${embedding.length} dimensions but ${this.dimensions} were requested`
+      );
+    }
+    return embedding;
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'hashing':
+      return new HashingProvider(config.dimensions);
+    case 'openai':
+      return new OpenAICompatibleProvider(config.model, config.baseUrl || DEFAULT_OPENAI_BASE_URL, config.apiKey, config.dimensions);
+    case 'transformers':
+      return new TransformersProvider(config.model);
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
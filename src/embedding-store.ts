@@ -0,0 +1,523 @@
+// ABOUTME: Storage backends for entry embeddings
+// ABOUTME: Per-entry JSON files, or one packed Float32 index per journal root with text read from markdown
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EmbeddingData } from './embeddings.js';
+import { isObsidianMode, getEmbeddingCachePath, getEmbeddingPathForFile, getPackedIndexPath } from './config.js';
+import { isEncryptionEnabled, openBuffer, readEntryFile, sealBuffer } from './encryption.js';
+
+export interface EmbeddingStore {
+  save(mdPath: string, embeddingData: EmbeddingData, isUserJournal: boolean): Promise<void>;
+  load(mdPath: string, isUserJournal: boolean): Promise<EmbeddingData | null>;
+  /** Loads every embedding stored for a journal root; `path` is always the entry's markdown path */
+  loadAll(journalPath: string, isUserJournal: boolean): Promise<EmbeddingData[]>;
+  remove(mdPath: string, isUserJournal: boolean): Promise<void>;
+  /**
+   * Finds embeddings whose markdown entry no longer exists, without deleting them.
+   * @returns markdown paths of the missing entries
+   */
+  findOrphans(journalPath: string, isUserJournal: boolean): Promise<string[]>;
+  /**
+   * Deletes embeddings whose markdown entry no longer exists.
+   * @returns markdown paths of the removed entries
+   */
+  removeOrphans(journalPath: string, isUserJournal: boolean): Promise<string[]>;
+  /** Directories where this store writes a journal's embeddings, for file watching */
+  getStorageDirectories(journalPath: string, isUserJournal: boolean): string[];
+  /**
+   * Maps a changed file to the markdown path of the entry it stores, 'all' if
+   * the whole journal must be reloaded, or null if the change is irrelevant.
+   */
+  resolveChange(changedPath: string, journalPath: string, isUserJournal: boolean): Promise<string | 'all' | null>;
+}
+
+/**
+ * Original format: one pretty-printed JSON `.embedding` file per entry, next to
+ * the markdown or in the local cache for Obsidian user journals.
+ */
+export class JsonEmbeddingStore implements EmbeddingStore {
+  async save(mdPath: string, embeddingData: EmbeddingData, isUserJournal: boolean): Promise<void> {
+    const embeddingPath = getEmbeddingPathForFile(mdPath, isUserJournal);
+
+    // Ensure directory exists
+    await fs.mkdir(path.dirname(embeddingPath), { recursive: true });
+
+    const json = JSON.stringify(embeddingData, null, 2);
+    // User journal embeddings hold entry text, so they are encrypted along with the entries
+    await fs.writeFile(embeddingPath, isUserJournal && isEncryptionEnabled() ? sealBuffer(Buffer.from(json, 'utf8')) : json);
+  }
+
+  async load(mdPath: string, isUserJournal: boolean): Promise<EmbeddingData | null> {
+    const embeddingPath = getEmbeddingPathForFile(mdPath, isUserJournal);
+
+    try {
+      const content = openBuffer(await fs.readFile(embeddingPath)).toString('utf8');
+      return { ...JSON.parse(content), path: mdPath };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return null; // File doesn't exist
+      }
+      throw error;
+    }
+  }
+
+  async loadAll(journalPath: string, isUserJournal: boolean): Promise<EmbeddingData[]> {
+    const embeddingPaths = isUserJournal && isObsidianMode()
+      ? await this.listCacheFiles()
+      : await this.listJournalFiles(journalPath);
+
+    const embeddings: EmbeddingData[] = [];
+    for (const embeddingPath of embeddingPaths) {
+      try {
+        const content = openBuffer(await fs.readFile(embeddingPath)).toString('utf8');
+        const mdPath = this.getMarkdownPath(embeddingPath, journalPath, isUserJournal);
+        embeddings.push({ ...JSON.parse(content), path: mdPath });
+      } catch (error) {
+        console.error(`Failed to load embedding ${path.basename(embeddingPath)}:`, error);
+        // Continue with other files
+      }
+    }
+
+    return embeddings;
+  }
+
+  async remove(mdPath: string, isUserJournal: boolean): Promise<void> {
+    await fs.rm(getEmbeddingPathForFile(mdPath, isUserJournal), { force: true });
+  }
+
+  async findOrphans(journalPath: string, isUserJournal: boolean): Promise<string[]> {
+    const orphans: string[] = [];
+    for (const embeddingPath of await this.listEmbeddingFiles(journalPath, isUserJournal)) {
+      const mdPath = this.getMarkdownPath(embeddingPath, journalPath, isUserJournal);
+      if (!await fileExists(mdPath)) {
+        orphans.push(mdPath);
+      }
+    }
+    return orphans;
+  }
+
+  async removeOrphans(journalPath: string, isUserJournal: boolean): Promise<string[]> {
+    const removed = await this.findOrphans(journalPath, isUserJournal);
+    for (const mdPath of removed) {
+      await fs.rm(getEmbeddingPathForFile(mdPath, isUserJournal), { force: true });
+    }
+    return removed;
+  }
+
+  getStorageDirectories(journalPath: string, isUserJournal: boolean): string[] {
+    return isUserJournal && isObsidianMode() ? [getEmbeddingCachePath()] : [journalPath];
+  }
+
+  async resolveChange(changedPath: string, journalPath: string, isUserJournal: boolean): Promise<string | null> {
+    return changedPath.endsWith('.embedding')
+      ? this.getMarkdownPath(changedPath, journalPath, isUserJournal)
+      : null;
+  }
+
+  /**
+   * Finds every `.embedding` file for a journal, so callers such as migrations
+   * can delete them after use.
+   */
+  async listEmbeddingFiles(journalPath: string, isUserJournal: boolean): Promise<string[]> {
+    return isUserJournal && isObsidianMode()
+      ? this.listCacheFiles()
+      : this.listJournalFiles(journalPath);
+  }
+
+  private getMarkdownPath(embeddingPath: string, journalPath: string, isUserJournal: boolean): string {
+    if (isUserJournal && isObsidianMode()) {
+      // Cache files are flat: 2025-12-22--14-30-45-123456.embedding
+      const [dateDir, filename] = path.basename(embeddingPath, '.embedding').split('--');
+      return path.join(journalPath, dateDir, `${filename}.md`);
+    }
+    return embeddingPath.replace(/\.embedding$/, '.md');
+  }
+
+  private async listCacheFiles(): Promise<string[]> {
+    const cachePath = getEmbeddingCachePath();
+
+    try {
+      const files = await fs.readdir(cachePath);
+      return files.filter(file => file.endsWith('.embedding')).map(file => path.join(cachePath, file));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.error(`Failed to read embeddings from cache ${cachePath}:`, error);
+      }
+      return []; // Return empty array if directory doesn't exist
+    }
+  }
+
+  private async listJournalFiles(basePath: string): Promise<string[]> {
+    const embeddingPaths: string[] = [];
+
+    try {
+      const dayDirs = await fs.readdir(basePath);
+
+      for (const dayDir of dayDirs) {
+        const dayPath = path.join(basePath, dayDir);
+        const stat = await fs.stat(dayPath);
+
+        if (!stat.isDirectory() || !dayDir.match(/^\d{4}-\d{2}-\d{2}$/)) {
+          continue;
+        }
+
+        const files = await fs.readdir(dayPath);
+        embeddingPaths.push(
+          ...files.filter(file => file.endsWith('.embedding')).map(file => path.join(dayPath, file))
+        );
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.error(`Failed to read embeddings from ${basePath}:`, error);
+      }
+      // Return empty array if directory doesn't exist
+    }
+
+    return embeddingPaths;
+  }
+}
+
+/**
+ * Derives what the packed store no longer keeps on disk: the searchable text,
+ * section names, frontmatter metadata and chunk texts of an entry, from its markdown.
+ */
+export type EntryTextExtractor = (markdownContent: string) => {
+  text: string;
+  sections: string[];
+  project?: string;
+  agent?: string;
+  session?: string;
+  tags?: string[];
+  chunks: Array<{ section: string; text: string }>;
+};
+
+interface PackedRecord {
+  entry: string; // Markdown path relative to the journal root, e.g. 2025-12-22/14-30-45-123456.md
+  id?: string;
+  timestamp: number;
+  model?: string;
+  dimensions: number;
+  extractionVersion?: number;
+  chunkSections: string[];
+  vectors: Float32Array[]; // Entry vector followed by one per chunk
+}
+
+interface PackedIndex {
+  mtimeMs: number;
+  records: Map<string, PackedRecord>;
+}
+
+const PACK_MAGIC = 'PJE1';
+
+/**
+ * Compact format: all vectors of a journal root in one binary file of Float32
+ * values, with a small JSON header describing each entry. Entry text is not
+ * duplicated; it is re-extracted from the markdown when embeddings are loaded.
+ *
+ * Layout: 'PJE1' | uint32 header length | JSON header | padding to 4 bytes | float32 vectors
+ * (the whole file is sealed for user journals when encryption is enabled)
+ */
+export class PackedEmbeddingStore implements EmbeddingStore {
+  private cache = new Map<string, PackedIndex>();
+  private writeQueues = new Map<string, Promise<void>>();
+
+  constructor(private readonly extractText: EntryTextExtractor) {}
+
+  async save(mdPath: string, embeddingData: EmbeddingData, isUserJournal: boolean): Promise<void> {
+    const journalPath = this.getJournalPath(mdPath);
+    await this.update(getPackedIndexPath(journalPath, isUserJournal), isUserJournal, records => {
+      const record = this.toRecord(embeddingData, journalPath, mdPath);
+      records.set(record.entry, record);
+    });
+  }
+
+  async load(mdPath: string, isUserJournal: boolean): Promise<EmbeddingData | null> {
+    const journalPath = this.getJournalPath(mdPath);
+    const index = await this.readIndex(getPackedIndexPath(journalPath, isUserJournal));
+    const record = index.records.get(this.getEntryName(journalPath, mdPath));
+    return record ? this.toEmbeddingData(record, mdPath) : null;
+  }
+
+  async loadAll(journalPath: string, isUserJournal: boolean): Promise<EmbeddingData[]> {
+    const index = await this.readIndex(getPackedIndexPath(journalPath, isUserJournal));
+    const embeddings: EmbeddingData[] = [];
+
+    for (const record of index.records.values()) {
+      try {
+        const embeddingData = await this.toEmbeddingData(record, path.join(journalPath, record.entry));
+        if (embeddingData) {
+          embeddings.push(embeddingData);
+        }
+      } catch (error) {
+        console.error(`Failed to load embedding for ${record.entry}:`, error);
+        // Continue with other entries
+      }
+    }
+
+    return embeddings;
+  }
+
+  async remove(mdPath: string, isUserJournal: boolean): Promise<void> {
+    const journalPath = this.getJournalPath(mdPath);
+    const packPath = getPackedIndexPath(journalPath, isUserJournal);
+    const entry = this.getEntryName(journalPath, mdPath);
+
+    if ((await this.readIndex(packPath)).records.has(entry)) {
+      await this.update(packPath, isUserJournal, records => {
+        records.delete(entry);
+      });
+    }
+  }
+
+  async findOrphans(journalPath: string, isUserJournal: boolean): Promise<string[]> {
+    const packPath = getPackedIndexPath(journalPath, isUserJournal);
+    const orphans: string[] = [];
+    for (const entry of (await this.readIndex(packPath)).records.keys()) {
+      if (!await fileExists(path.join(journalPath, entry))) {
+        orphans.push(path.join(journalPath, entry));
+      }
+    }
+    return orphans;
+  }
+
+  async removeOrphans(journalPath: string, isUserJournal: boolean): Promise<string[]> {
+    const orphans = await this.findOrphans(journalPath, isUserJournal);
+    if (orphans.length > 0) {
+      const packPath = getPackedIndexPath(journalPath, isUserJournal);
+      const entries = orphans.map(mdPath => this.getEntryName(journalPath, mdPath));
+      await this.update(packPath, isUserJournal, records => {
+        entries.forEach(entry => records.delete(entry));
+      });
+    }
+    return orphans;
+  }
+
+  getStorageDirectories(journalPath: string, isUserJournal: boolean): string[] {
+    return [path.dirname(getPackedIndexPath(journalPath, isUserJournal))];
+  }
+
+  async resolveChange(changedPath: string, journalPath: string, isUserJournal: boolean): Promise<'all' | null> {
+    const packPath = getPackedIndexPath(journalPath, isUserJournal);
+    if (path.resolve(changedPath) !== path.resolve(packPath)) {
+      return null;
+    }
+
+    // Ignore the events caused by our own writes
+    try {
+      const stat = await fs.stat(packPath);
+      return this.cache.get(packPath)?.mtimeMs === stat.mtimeMs ? null : 'all';
+    } catch {
+      return 'all';
+    }
+  }
+
+  /**
+   * Moves a journal's per-file JSON embeddings into its packed index and
+   * deletes the JSON files.
+   * @returns number of migrated embeddings
+   */
+  async migrateFromJson(journalPath: string, isUserJournal: boolean, legacy: JsonEmbeddingStore): Promise<number> {
+    const embeddingFiles = await legacy.listEmbeddingFiles(journalPath, isUserJournal);
+    if (embeddingFiles.length === 0) {
+      return 0;
+    }
+
+    const embeddings = (await legacy.loadAll(journalPath, isUserJournal))
+      .filter(embeddingData => Array.isArray(embeddingData.embedding));
+
+    await this.update(getPackedIndexPath(journalPath, isUserJournal), isUserJournal, records => {
+      for (const embeddingData of embeddings) {
+        const record = this.toRecord(embeddingData, journalPath, embeddingData.path);
+        // Never replace an embedding already written in the packed format
+        if (!records.has(record.entry)) {
+          records.set(record.entry, record);
+        }
+      }
+    });
+
+    await Promise.all(embeddingFiles.map(file => fs.rm(file, { force: true })));
+    return embeddings.length;
+  }
+
+  private getJournalPath(mdPath: string): string {
+    // Entries always live at <journal>/<YYYY-MM-DD>/<time>.md
+    return path.dirname(path.dirname(mdPath));
+  }
+
+  private getEntryName(journalPath: string, mdPath: string): string {
+    return path.relative(journalPath, mdPath).split(path.sep).join('/');
+  }
+
+  private toRecord(embeddingData: EmbeddingData, journalPath: string, mdPath: string): PackedRecord {
+    const chunks = embeddingData.chunks || [];
+    return {
+      entry: this.getEntryName(journalPath, mdPath),
+      id: embeddingData.id,
+      timestamp: embeddingData.timestamp,
+      model: embeddingData.model,
+      dimensions: embeddingData.embedding.length,
+      extractionVersion: embeddingData.extractionVersion,
+      chunkSections: chunks.map(chunk => chunk.section),
+      vectors: [embeddingData.embedding, ...chunks.map(chunk => chunk.embedding)].map(vector => Float32Array.from(vector))
+    };
+  }
+
+  private async toEmbeddingData(record: PackedRecord, mdPath: string): Promise<EmbeddingData | null> {
+    let markdown: string;
+    try {
+      markdown = await readEntryFile(mdPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return null; // Entry no longer exists
+      }
+      throw error;
+    }
+
+    const { text, sections, project, agent, session, tags, chunks } = this.extractText(markdown);
+    const chunkVectors = record.vectors.slice(1);
+    // If the markdown was edited the chunks no longer line up; mark stale so it gets regenerated
+    const chunksMatch = chunks.length === chunkVectors.length
+      && chunks.every((chunk, i) => chunk.section === record.chunkSections[i]);
+
+    return {
+      embedding: Array.from(record.vectors[0]),
+      text,
+      sections,
+      timestamp: record.timestamp,
+      path: mdPath,
+      id: record.id,
+      project,
+      agent,
+      session,
+      tags,
+      chunks: chunksMatch
+        ? chunks.map((chunk, i) => ({ ...chunk, embedding: Array.from(chunkVectors[i]) }))
+        : [],
+      model: record.model,
+      dimensions: record.dimensions,
+      extractionVersion: chunksMatch ? record.extractionVersion : undefined
+    };
+  }
+
+  private async readIndex(packPath: string): Promise<PackedIndex> {
+    let stat;
+    try {
+      stat = await fs.stat(packPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return { mtimeMs: 0, records: new Map() };
+      }
+      throw error;
+    }
+
+    const cached = this.cache.get(packPath);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+      return cached;
+    }
+
+    const index = { mtimeMs: stat.mtimeMs, records: this.decode(openBuffer(await fs.readFile(packPath)), packPath) };
+    this.cache.set(packPath, index);
+    return index;
+  }
+
+  private async update(
+    packPath: string,
+    isUserJournal: boolean,
+    mutate: (records: Map<string, PackedRecord>) => void
+  ): Promise<void> {
+    // Serialize writers so concurrent saves don't drop each other's records
+    const previous = this.writeQueues.get(packPath) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const index = await this.readIndex(packPath);
+      const records = new Map(index.records);
+      mutate(records);
+
+      await fs.mkdir(path.dirname(packPath), { recursive: true });
+      const tempPath = `${packPath}.${process.pid}.tmp`;
+      const encoded = this.encode(records);
+      await fs.writeFile(tempPath, isUserJournal && isEncryptionEnabled() ? sealBuffer(encoded) : encoded);
+      await fs.rename(tempPath, packPath);
+
+      const stat = await fs.stat(packPath);
+      this.cache.set(packPath, { mtimeMs: stat.mtimeMs, records });
+    });
+
+    this.writeQueues.set(packPath, next);
+    try {
+      await next;
+    } finally {
+      if (this.writeQueues.get(packPath) === next) {
+        this.writeQueues.delete(packPath);
+      }
+    }
+  }
+
+  private encode(records: Map<string, PackedRecord>): Buffer {
+    const header = Buffer.from(JSON.stringify({
+      version: 1,
+      records: Array.from(records.values()).map(({ vectors, ...record }) => ({ ...record, vectorCount: vectors.length }))
+    }), 'utf8');
+
+    const headerEnd = 8 + header.length;
+    const dataStart = Math.ceil(headerEnd / 4) * 4;
+    const floatCount = Array.from(records.values()).reduce(
+      (sum, record) => sum + record.vectors.length * record.dimensions, 0
+    );
+
+    const buffer = Buffer.alloc(dataStart + floatCount * 4);
+    buffer.write(PACK_MAGIC, 0, 'ascii');
+    buffer.writeUInt32LE(header.length, 4);
+    header.copy(buffer, 8);
+
+    let offset = dataStart;
+    for (const record of records.values()) {
+      for (const vector of record.vectors) {
+        for (let i = 0; i < record.dimensions; i++) {
+          buffer.writeFloatLE(vector[i] || 0, offset);
+          offset += 4;
+        }
+      }
+    }
+
+    return buffer;
+  }
+
+  private decode(buffer: Buffer, packPath: string): Map<string, PackedRecord> {
+    if (buffer.length < 8 || buffer.toString('ascii', 0, 4) !== PACK_MAGIC) {
+      throw new Error(`${packPath} is not a packed embedding index`);
+    }
+
+    const headerLength = buffer.readUInt32LE(4);
+    const header = JSON.parse(buffer.toString('utf8', 8, 8 + headerLength)) as {
+      records: Array<Omit<PackedRecord, 'vectors'> & { vectorCount: number }>;
+    };
+
+    const records = new Map<string, PackedRecord>();
+    let offset = Math.ceil((8 + headerLength) / 4) * 4;
+
+    for (const { vectorCount, ...record } of header.records) {
+      const vectors: Float32Array[] = [];
+      for (let v = 0; v < vectorCount; v++) {
+        const vector = new Float32Array(record.dimensions);
+        for (let i = 0; i < record.dimensions; i++) {
+          vector[i] = buffer.readFloatLE(offset);
+          offset += 4;
+        }
+        vectors.push(vector);
+      }
+      records.set(record.entry, { ...record, vectors });
+    }
+
+    return records;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
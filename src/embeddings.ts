@@ -1,10 +1,16 @@
-// ABOUTME: Local embedding service using transformers for semantic journal search
+// ABOUTME: Embedding service for semantic journal search, backed by a configurable provider
 // ABOUTME: Provides text embedding generation and similarity computation utilities
 
-import { pipeline, FeatureExtractionPipeline } from '@xenova/transformers';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { getEmbeddingPathForFile } from './config.js';
+import { getEmbeddingConfig, getEmbeddingStorageFormat, EmbeddingStorageFormat } from './config.js';
+import { EmbeddingProvider, createEmbeddingProvider } from './embedding-providers.js';
+import { EmbeddingStore, JsonEmbeddingStore, PackedEmbeddingStore } from './embedding-store.js';
+import { parseJournalEntry, splitFrontmatter } from './frontmatter.js';
+
+export interface EmbeddingChunk {
+  section: string;
+  text: string;
+  embedding: number[];
+}
 
 export interface EmbeddingData {
   embedding: number[];
@@ -12,59 +18,119 @@ export interface EmbeddingData {
   sections: string[];
   timestamp: number;
   path: string;
+  id?: string; // Stable entry ID from the frontmatter; absent for older entries
+  project?: string; // Frontmatter metadata, used to filter searches and listings
+  agent?: string;
+  session?: string;
+  tags?: string[];
+  chunks?: EmbeddingChunk[];
+  model?: string; // Provider and model that produced the vectors, e.g. transformers:Xenova/all-MiniLM-L6-v2
+  dimensions?: number;
+  extractionVersion?: number;
 }
 
+/**
+ * Version of the text extraction and chunking behind each embedding. Bump it
+ * whenever extractSearchableText or extractSectionChunks change output, so
+ * existing embeddings are regenerated on the next startup.
+ */
+export const EXTRACTION_VERSION = 3;
+
+// MiniLM truncates at 256 word pieces; keep chunks comfortably below that
+const MAX_CHUNK_LENGTH = 800;
+
 export class EmbeddingService {
   private static instance: EmbeddingService;
-  private extractor: FeatureExtractionPipeline | null = null;
-  private readonly modelName = 'Xenova/all-MiniLM-L6-v2';
+  private provider: EmbeddingProvider;
+  private store: EmbeddingStore;
   private initPromise: Promise<void> | null = null;
 
-  private constructor() {}
+  private constructor(provider: EmbeddingProvider) {
+    this.provider = provider;
+    this.store = this.createStore(getEmbeddingStorageFormat());
+  }
 
   static getInstance(): EmbeddingService {
     if (!EmbeddingService.instance) {
-      EmbeddingService.instance = new EmbeddingService();
+      EmbeddingService.instance = new EmbeddingService(createEmbeddingProvider(getEmbeddingConfig()));
     }
     return EmbeddingService.instance;
   }
 
+  /**
+   * Backend holding embeddings on disk (per-file JSON or packed index).
+   */
+  get storage(): EmbeddingStore {
+    return this.store;
+  }
+
+  /**
+   * Switches the on-disk embedding format, e.g. after loading configuration or in tests.
+   */
+  setStorageFormat(format: EmbeddingStorageFormat): void {
+    this.store = this.createStore(format);
+  }
+
+  /**
+   * Identifies the provider and model producing embeddings; recorded in every .embedding file.
+   */
+  get modelId(): string {
+    return this.provider.id;
+  }
+
+  /**
+   * Swaps the embedding backend, e.g. after loading configuration or in tests.
+   */
+  setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+    this.initPromise = null;
+  }
+
   async initialize(): Promise<void> {
     if (this.initPromise) {
       return this.initPromise;
     }
 
-    this.initPromise = this.doInitialize();
+    this.initPromise = this.provider.initialize().catch(error => {
+      // Allow a later call to retry, e.g. once the model server is reachable
+      this.initPromise = null;
+      throw error;
+    });
     return this.initPromise;
   }
 
-  private async doInitialize(): Promise<void> {
+  async generateEmbedding(text: string): Promise<number[]> {
+    await this.initialize();
+
     try {
-      console.error('Loading embedding model...');
-      this.extractor = await pipeline('feature-extraction', this.modelName);
-      console.error('Embedding model loaded successfully');
+      return await this.provider.embed(text);
     } catch (error) {
-      console.error('Failed to load embedding model:', error);
+      console.error('Failed to generate embedding:', error);
       throw error;
     }
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.extractor) {
-      await this.initialize();
-    }
-
-    if (!this.extractor) {
-      throw new Error('Embedding model not initialized');
+  private createStore(format: EmbeddingStorageFormat): EmbeddingStore {
+    if (format === 'packed') {
+      return new PackedEmbeddingStore(markdown => ({
+        ...this.extractSearchableText(markdown),
+        ...this.extractMetadata(markdown),
+        chunks: this.extractSectionChunks(markdown)
+      }));
     }
+    return new JsonEmbeddingStore();
+  }
 
-    try {
-      const result = await this.extractor(text, { pooling: 'mean', normalize: true });
-      return Array.from(result.data);
-    } catch (error) {
-      console.error('Failed to generate embedding:', error);
-      throw error;
-    }
+  /**
+   * True if an embedding was produced by another model, has inconsistent
+   * dimensions, or predates the current text extraction; such embeddings must
+   * be regenerated before their vectors can be compared with new ones.
+   */
+  isStale(embeddingData: EmbeddingData): boolean {
+    return embeddingData.model !== this.modelId
+      || embeddingData.extractionVersion !== EXTRACTION_VERSION
+      || !Array.isArray(embeddingData.embedding)
+      || embeddingData.dimensions !== embeddingData.embedding.length;
   }
 
   cosineSimilarity(a: number[], b: number[]): number {
@@ -90,31 +156,59 @@ export class EmbeddingService {
   }
 
   async saveEmbedding(filePath: string, embeddingData: EmbeddingData, isUserJournal: boolean = false): Promise<void> {
-    const embeddingPath = getEmbeddingPathForFile(filePath, isUserJournal);
+    await this.store.save(filePath, embeddingData, isUserJournal);
+  }
 
-    // Ensure directory exists
-    await fs.mkdir(path.dirname(embeddingPath), { recursive: true });
+  async loadEmbedding(filePath: string, isUserJournal: boolean = false): Promise<EmbeddingData | null> {
+    return this.store.load(filePath, isUserJournal);
+  }
 
-    await fs.writeFile(embeddingPath, JSON.stringify(embeddingData, null, 2), 'utf8');
+  async loadAllEmbeddings(journalPath: string, isUserJournal: boolean = false): Promise<EmbeddingData[]> {
+    return this.store.loadAll(journalPath, isUserJournal);
   }
 
-  async loadEmbedding(filePath: string, isUserJournal: boolean = false): Promise<EmbeddingData | null> {
-    const embeddingPath = getEmbeddingPathForFile(filePath, isUserJournal);
+  async removeEmbedding(filePath: string, isUserJournal: boolean = false): Promise<void> {
+    await this.store.remove(filePath, isUserJournal);
+  }
 
-    try {
-      const content = await fs.readFile(embeddingPath, 'utf8');
-      return JSON.parse(content);
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
-        return null; // File doesn't exist
-      }
-      throw error;
+  /**
+   * Finds embeddings left behind by entries removed outside the server.
+   * @returns markdown paths of the missing entries
+   */
+  async findOrphanedEmbeddings(journalPath: string, isUserJournal: boolean = false): Promise<string[]> {
+    return this.store.findOrphans(journalPath, isUserJournal);
+  }
+
+  /**
+   * Deletes embeddings left behind by entries removed outside the server.
+   * @returns markdown paths of the removed entries
+   */
+  async removeOrphanedEmbeddings(journalPath: string, isUserJournal: boolean = false): Promise<string[]> {
+    return this.store.removeOrphans(journalPath, isUserJournal);
+  }
+
+  /**
+   * Moves per-file JSON embeddings into the packed index when the packed format is in use.
+   * @returns number of migrated embeddings
+   */
+  async migrateStorage(journalPath: string, isUserJournal: boolean = false): Promise<number> {
+    if (!(this.store instanceof PackedEmbeddingStore)) {
+      return 0;
     }
+    return this.store.migrateFromJson(journalPath, isUserJournal, new JsonEmbeddingStore());
+  }
+
+  /**
+   * Frontmatter fields that searches and listings can be filtered by.
+   */
+  extractMetadata(markdownContent: string): { project?: string; agent?: string; session?: string; tags: string[] } {
+    const { project, agent, session, tags } = parseJournalEntry(markdownContent, '');
+    return { project, agent, session, tags };
   }
 
   extractSearchableText(markdownContent: string): { text: string; sections: string[] } {
     // Remove YAML frontmatter
-    const withoutFrontmatter = markdownContent.replace(/^---\n.*?\n---\n/s, '');
+    const withoutFrontmatter = splitFrontmatter(markdownContent).body;
     
     // Extract sections
     const sections: string[] = [];
@@ -134,4 +228,68 @@ export class EmbeddingService {
       sections
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Splits an entry into one chunk per `## Section`, further dividing long
+   * sections at paragraph and sentence boundaries so each chunk fits the model.
+   * Entries without section headings produce no chunks.
+   */
+  extractSectionChunks(markdownContent: string): Array<{ section: string; text: string }> {
+    const withoutFrontmatter = splitFrontmatter(markdownContent).body;
+    const chunks: Array<{ section: string; text: string }> = [];
+
+    const parts = withoutFrontmatter.split(/^## (.+)$/m);
+    // parts = [preamble, heading1, body1, heading2, body2, ...]
+    for (let i = 1; i < parts.length; i += 2) {
+      const section = parts[i].trim();
+      const body = (parts[i + 1] || '').replace(/\n{3,}/g, '\n\n').trim();
+      if (body.length === 0) {
+        continue;
+      }
+
+      for (const text of this.splitLongText(body)) {
+        chunks.push({ section, text });
+      }
+    }
+
+    return chunks;
+  }
+
+  private splitLongText(text: string): string[] {
+    if (text.length <= MAX_CHUNK_LENGTH) {
+      return [text];
+    }
+
+    // Break into pieces no longer than the limit, preferring paragraph then sentence boundaries
+    const pieces: string[] = [];
+    for (const paragraph of text.split(/\n\s*\n/)) {
+      if (paragraph.length <= MAX_CHUNK_LENGTH) {
+        pieces.push(paragraph);
+        continue;
+      }
+      for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+        for (let start = 0; start < sentence.length; start += MAX_CHUNK_LENGTH) {
+          pieces.push(sentence.slice(start, start + MAX_CHUNK_LENGTH));
+        }
+      }
+    }
+
+    // Greedily merge adjacent pieces back up to the limit
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+      const candidate = current ? `${current}\n\n${piece}` : piece;
+      if (candidate.length > MAX_CHUNK_LENGTH && current) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+}
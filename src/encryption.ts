@@ -0,0 +1,119 @@
+// ABOUTME: Opt-in encryption at rest for user journal entries and their embeddings
+// ABOUTME: AES-256-GCM with a key derived from AGENTIC_JOURNAL_KEY or AGENTIC_JOURNAL_KEYFILE
+
+import * as fs from 'fs/promises';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { getEncryptionKeyMaterial } from './config.js';
+import { splitFrontmatter } from './frontmatter.js';
+
+// Sealed data: 'PJX1' | 12-byte IV | 16-byte auth tag | ciphertext
+const SEALED_MAGIC = Buffer.from('PJX1', 'ascii');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Fixed salt: the key material itself is the secret, and every machine must derive the same key
+const KEY_SALT = 'private-journal-mcp';
+
+const ARMOR_BEGIN = '-----BEGIN ENCRYPTED JOURNAL ENTRY-----';
+const ARMOR_END = '-----END ENCRYPTED JOURNAL ENTRY-----';
+const SEALED_ENTRY_PATTERN = new RegExp(`^(---\\n.*?\\n---\\n)?\\n?${ARMOR_BEGIN}\\n([A-Za-z0-9+/=\\n]+)\\n${ARMOR_END}\\n?$`, 's');
+
+let cachedKey: { material: string; key: Buffer } | null = null;
+
+/**
+ * Key used for new user journal data, or null if encryption isn't configured.
+ */
+export function getEncryptionKey(): Buffer | null {
+  const material = getEncryptionKeyMaterial();
+  if (!material) {
+    return null;
+  }
+
+  if (cachedKey?.material !== material) {
+    cachedKey = { material, key: scryptSync(material, KEY_SALT, 32) };
+  }
+  return cachedKey.key;
+}
+
+export function isEncryptionEnabled(): boolean {
+  return getEncryptionKey() !== null;
+}
+
+export function isSealed(data: Buffer): boolean {
+  return data.length >= SEALED_MAGIC.length && data.subarray(0, SEALED_MAGIC.length).equals(SEALED_MAGIC);
+}
+
+export function sealBuffer(plaintext: Buffer): Buffer {
+  const key = requireKey();
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([SEALED_MAGIC, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypts sealed data; plaintext data is returned unchanged, so journals
+ * can mix entries written before and after encryption was enabled.
+ */
+export function openBuffer(data: Buffer): Buffer {
+  if (!isSealed(data)) {
+    return data;
+  }
+
+  const key = requireKey();
+  const ivStart = SEALED_MAGIC.length;
+  const tagStart = ivStart + IV_LENGTH;
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(ivStart, tagStart));
+  decipher.setAuthTag(data.subarray(tagStart, tagStart + TAG_LENGTH));
+
+  try {
+    return Buffer.concat([decipher.update(data.subarray(tagStart + TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new Error('Failed to decrypt journal data: wrong key or corrupted file');
+  }
+}
+
+export function isSealedEntry(content: string): boolean {
+  return SEALED_ENTRY_PATTERN.test(content);
+}
+
+/**
+ * Encrypts the body of a markdown entry. Frontmatter stays readable so IDs,
+ * dates and tags keep working in Obsidian and for lookups.
+ */
+export function sealEntry(markdown: string): string {
+  const { frontmatter, body } = splitFrontmatter(markdown);
+  const sealed = sealBuffer(Buffer.from(body, 'utf8')).toString('base64');
+  const lines = sealed.match(/.{1,76}/g) || [];
+  return `${frontmatter}\n${ARMOR_BEGIN}\n${lines.join('\n')}\n${ARMOR_END}\n`;
+}
+
+export function openEntry(content: string): string {
+  const match = content.match(SEALED_ENTRY_PATTERN);
+  if (!match) {
+    return content;
+  }
+
+  const body = openBuffer(Buffer.from(match[2].replace(/\n/g, ''), 'base64')).toString('utf8');
+  return (match[1] || '') + body;
+}
+
+export async function readEntryFile(filePath: string): Promise<string> {
+  return openEntry(await fs.readFile(filePath, 'utf8'));
+}
+
+/**
+ * Writes an entry, encrypting its body when asked to and a key is configured.
+ */
+export async function writeEntryFile(filePath: string, markdown: string, encrypt: boolean): Promise<void> {
+  const content = encrypt && isEncryptionEnabled() ? sealEntry(markdown) : markdown;
+  await fs.writeFile(filePath, content, 'utf8');
+}
+
+function requireKey(): Buffer {
+  const key = getEncryptionKey();
+  if (!key) {
+    throw new Error('Journal data is encrypted; set AGENTIC_JOURNAL_KEY or AGENTIC_JOURNAL_KEYFILE to read it');
+  }
+  return key;
+}
@@ -0,0 +1,272 @@
+// ABOUTME: Exports journal entries to a combined markdown file, JSON Lines, or a static HTML site
+// ABOUTME: Reads every entry file of the journals, filtered by date range, journal, project and section
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SearchService, SearchOptions } from './search.js';
+import { FrontmatterData, parseFrontmatter, parseJournalEntry } from './frontmatter.js';
+import { normalizeSectionName } from './sections.js';
+
+export type ExportFormat = 'markdown' | 'jsonl' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'jsonl', 'html'];
+
+export interface ExportFilters {
+  dateRange?: SearchOptions['dateRange'];
+  type?: 'project' | 'user' | 'both';
+  project?: string; // Case-insensitive substring, as in searches
+  sections?: string[]; // Only entries with these sections, and only those sections of them
+}
+
+export interface ExportedSection {
+  heading: string;
+  text: string;
+}
+
+/**
+ * One exported entry; also the shape of each JSON Lines record.
+ */
+export interface ExportedEntry {
+  id?: string;
+  ref: string;
+  type: 'project' | 'user';
+  date: string; // ISO 8601
+  title?: string; // From the frontmatter, e.g. "2:30:45 PM - December 22, 2025"
+  project?: string;
+  agent?: string;
+  session?: string;
+  tags: string[];
+  frontmatter: FrontmatterData;
+  sections: ExportedSection[];
+}
+
+export interface ExportResult {
+  entries: number;
+  files: string[]; // Paths of the written files
+}
+
+export class JournalExporter {
+  constructor(private readonly searchService: SearchService) {}
+
+  /**
+   * Reads the entries matching the filters, oldest first. Entry files are read
+   * directly, so entries without embeddings yet are exported too.
+   */
+  async collect(filters: ExportFilters = {}): Promise<ExportedEntry[]> {
+    const { dateRange, project } = filters;
+    const entries: ExportedEntry[] = [];
+    for (const file of await this.searchService.listEntryFiles(filters.type ?? 'both')) {
+      let markdown: string | null;
+      let modified: number;
+      try {
+        markdown = await this.searchService.readEntry(file.path);
+        modified = (await fs.stat(file.path)).mtimeMs;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+          continue; // Removed while exporting
+        }
+        throw error;
+      }
+      if (markdown === null) {
+        continue; // Removed while exporting
+      }
+
+      const entry = toExportedEntry(markdown, await this.searchService.getEntryRef(file.path, file.type), file.type, modified);
+      const date = new Date(entry.date);
+      if ((dateRange?.start && date < dateRange.start) || (dateRange?.end && date > dateRange.end)) {
+        continue;
+      }
+      if (project && !entry.project?.toLowerCase().includes(project.toLowerCase())) {
+        continue;
+      }
+      if (filters.sections && filters.sections.length > 0) {
+        entry.sections = entry.sections.filter(section => matchesSection(section.heading, filters.sections!));
+        if (entry.sections.length === 0) {
+          continue;
+        }
+      }
+      entries.push(entry);
+    }
+    return entries.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Writes the matching entries in the given format: markdown and jsonl to
+   * the output file, html as a site in the output directory.
+   */
+  async export(format: ExportFormat, output: string, filters: ExportFilters = {}): Promise<ExportResult> {
+    const entries = await this.collect(filters);
+
+    if (format === 'html') {
+      const files: string[] = [];
+      for (const [relativePath, content] of Object.entries(renderHtmlSite(entries))) {
+        const file = path.join(output, relativePath);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, content, 'utf8');
+        files.push(file);
+      }
+      return { entries: entries.length, files };
+    }
+
+    await fs.mkdir(path.dirname(path.resolve(output)), { recursive: true });
+    await fs.writeFile(output, format === 'jsonl' ? renderJsonLines(entries) : renderMarkdown(entries), 'utf8');
+    return { entries: entries.length, files: [output] };
+  }
+}
+
+export function parseExportFormat(value: unknown): ExportFormat {
+  if (typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value)) {
+    return value as ExportFormat;
+  }
+  throw new Error(`Export format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+}
+
+/**
+ * Splits an entry into its metadata and `## Section` blocks.
+ * @param fallbackTimestamp - date of entries without one in their frontmatter, e.g. the file's modification time
+ */
+export function toExportedEntry(markdown: string, ref: string, type: 'project' | 'user', fallbackTimestamp: number): ExportedEntry {
+  const entry = parseJournalEntry(markdown, ref);
+  let frontmatter: FrontmatterData;
+  try {
+    frontmatter = parseFrontmatter(markdown).data;
+  } catch {
+    frontmatter = {}; // Export the body of entries with broken frontmatter anyway
+  }
+
+  const parts = entry.content.split(/^## (.+)$/m);
+  // parts = [preamble, heading1, body1, heading2, body2, ...]
+  const sections: ExportedSection[] = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    sections.push({ heading: parts[i].trim(), text: (parts[i + 1] || '').replace(/\n{3,}/g, '\n\n').trim() });
+  }
+  // Entries written without sections (process_feelings) keep their text
+  const preamble = parts[0].trim();
+  if (sections.length === 0 && preamble) {
+    sections.push({ heading: 'Entry', text: preamble });
+  }
+
+  return {
+    id: entry.id,
+    ref,
+    type,
+    date: (entry.timestamp ?? new Date(fallbackTimestamp)).toISOString(),
+    title: entry.title,
+    project: entry.project,
+    agent: entry.agent,
+    session: entry.session,
+    tags: entry.tags,
+    frontmatter,
+    sections
+  };
+}
+
+export function renderJsonLines(entries: ExportedEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+}
+
+export function renderMarkdown(entries: ExportedEntry[]): string {
+  const blocks = entries.map(entry => {
+    const details = [entry.type, entry.project, entry.tags.length > 0 ? entry.tags.map(tag => `#${tag}`).join(' ') : undefined]
+      .filter(Boolean)
+      .join(' · ');
+    // Entry headings move down a level under the per-entry heading
+    const sections = entry.sections.map(section => `### ${section.heading}\n\n${section.text}`);
+    return [`## ${entryTitle(entry)}`, `*${details}*`, ...sections].join('\n\n');
+  });
+
+  const header = `# Journal export\n\n${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`;
+  return [header, ...blocks].join('\n\n---\n\n') + '\n';
+}
+
+/**
+ * Builds a static site: index.html listing days newest first, and one page
+ * per day with that day's entries.
+ * @returns file contents keyed by path relative to the site root
+ */
+export function renderHtmlSite(entries: ExportedEntry[]): Record<string, string> {
+  const days = new Map<string, ExportedEntry[]>();
+  for (const entry of entries) {
+    const day = localDay(entry.date);
+    days.set(day, [...(days.get(day) || []), entry]);
+  }
+  const dayList = Array.from(days.keys()).sort().reverse();
+
+  const files: Record<string, string> = {};
+  files['index.html'] = htmlPage('Journal', [
+    `<h1>Journal</h1>`,
+    `<p>${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}</p>`,
+    ...dayList.map(day => [
+      `<h2><a href="days/${day}.html">${day}</a></h2>`,
+      '<ul>',
+      ...days.get(day)!.map((entry, i) =>
+        `<li><a href="days/${day}.html#entry-${i + 1}">${escapeHtml(entryTitle(entry))}</a> (${entry.type})</li>`),
+      '</ul>'
+    ].join('\n'))
+  ]);
+
+  for (const day of dayList) {
+    files[`days/${day}.html`] = htmlPage(day, [
+      `<p><a href="../index.html">All days</a></p>`,
+      `<h1>${day}</h1>`,
+      ...days.get(day)!.map((entry, i) => [
+        `<article id="entry-${i + 1}">`,
+        `<h2>${escapeHtml(entryTitle(entry))}</h2>`,
+        `<p class="meta">${escapeHtml([entry.type, entry.project, ...entry.tags.map(tag => `#${tag}`)].filter(Boolean).join(' · '))}</p>`,
+        ...entry.sections.map(section => `<h3>${escapeHtml(section.heading)}</h3>\n${renderParagraphs(section.text)}`),
+        '</article>'
+      ].join('\n'))
+    ]);
+  }
+  return files;
+}
+
+// Accepts section names (technical_insights) and headings (Technical Insights), as searches do
+function matchesSection(heading: string, filters: string[]): boolean {
+  return filters.some(filter => normalizeSectionName(heading).includes(normalizeSectionName(filter)));
+}
+
+function entryTitle(entry: ExportedEntry): string {
+  return entry.title || new Date(entry.date).toLocaleString();
+}
+
+// YYYY-MM-DD in local time, matching the journal's day directories
+function localDay(isoDate: string): string {
+  const date = new Date(isoDate);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function htmlPage(title: string, body: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>body{font-family:system-ui,sans-serif;max-width:46rem;margin:2rem auto;padding:0 1rem;line-height:1.5}' +
+      'article{border-top:1px solid #ddd;margin-top:2rem}.meta{color:#666;font-size:.9rem}</style>',
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+// Entry text is shown as written: paragraphs and line breaks, no other markdown
+function renderParagraphs(text: string): string {
+  return text.split(/\n{2,}/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>\n')}</p>`)
+    .join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
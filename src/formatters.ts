@@ -0,0 +1,146 @@
+// ABOUTME: Renders search and listing results for MCP tool responses
+// ABOUTME: Human-readable text for agents, or JSON for client-side tooling
+
+import { SearchResult } from './search.js';
+
+export type ResultFormat = 'text' | 'json';
+
+/**
+ * Result fields exposed in JSON output. The full entry text is left out;
+ * read_journal_entry returns it.
+ */
+export interface SerializedResult {
+  id?: string;
+  ref: string;
+  path: string;
+  type: 'project' | 'user';
+  score: number;
+  timestamp: number;
+  date: string; // ISO 8601
+  sections: string[];
+  section?: string;
+  project?: string;
+  agent?: string;
+  session?: string;
+  tags: string[];
+  excerpt: string;
+}
+
+export interface SessionGroup {
+  session?: string; // Undefined for entries written before sessions were recorded
+  results: SearchResult[];
+}
+
+export function parseResultFormat(value: unknown): ResultFormat {
+  if (value === undefined || value === 'text' || value === 'json') {
+    return value ?? 'text';
+  }
+  throw new Error(`format must be 'text' or 'json'`);
+}
+
+export function serializeResult(result: SearchResult): SerializedResult {
+  return {
+    id: result.id,
+    ref: result.ref,
+    path: result.path,
+    type: result.type,
+    score: result.score,
+    timestamp: result.timestamp,
+    date: new Date(result.timestamp).toISOString(),
+    sections: result.sections,
+    section: result.section,
+    project: result.project,
+    agent: result.agent,
+    session: result.session,
+    tags: result.tags || [],
+    excerpt: result.excerpt
+  };
+}
+
+export function formatSearchResults(results: SearchResult[], format: ResultFormat = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify({ results: results.map(serializeResult) }, null, 2);
+  }
+
+  return results.length > 0
+    ? `Found ${results.length} relevant entries:\n\n${results.map((result, i) =>
+      `${i + 1}. [Score: ${result.score.toFixed(3)}] ${new Date(result.timestamp).toLocaleDateString()} (${result.type})\n` +
+      formatDetails(result)
+    ).join('\n')}`
+    : 'No relevant entries found.';
+}
+
+/**
+ * @param period - Human-readable time window of the listing, e.g. "last 30 days"
+ * @param groupBySession - Group entries by the session they were written in
+ */
+export function formatRecentEntries(
+  results: SearchResult[],
+  period: string,
+  format: ResultFormat = 'text',
+  groupBySession: boolean = false
+): string {
+  if (format === 'json') {
+    return groupBySession
+      ? JSON.stringify({
+        period,
+        sessions: groupResultsBySession(results).map(group => ({
+          session: group.session ?? null,
+          results: group.results.map(serializeResult)
+        }))
+      }, null, 2)
+      : JSON.stringify({ period, results: results.map(serializeResult) }, null, 2);
+  }
+
+  if (results.length === 0) {
+    return `No entries found (${period}).`;
+  }
+  if (!groupBySession) {
+    return `Recent entries (${period}):\n\n${formatListing(results)}`;
+  }
+
+  return `Recent entries (${period}), by session:\n\n${groupResultsBySession(results).map(group =>
+    `${group.session ? `Session ${group.session}` : 'No session'} (${group.results.length} ${group.results.length === 1 ? 'entry' : 'entries'})\n\n` +
+    formatListing(group.results)
+  ).join('\n')}`;
+}
+
+export function formatSessionEntries(results: SearchResult[], session: string, format: ResultFormat = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify({ session, results: results.map(serializeResult) }, null, 2);
+  }
+
+  return results.length > 0
+    ? `Entries from session ${session}:\n\n${formatListing(results)}`
+    : `No entries found for session ${session}.`;
+}
+
+/**
+ * Groups results by session, keeping the order in which each session first
+ * appears; entries without a session share one group.
+ */
+export function groupResultsBySession(results: SearchResult[]): SessionGroup[] {
+  const groups = new Map<string | undefined, SearchResult[]>();
+  for (const result of results) {
+    const group = groups.get(result.session) || [];
+    group.push(result);
+    groups.set(result.session, group);
+  }
+  return Array.from(groups, ([session, grouped]) => ({ session, results: grouped }));
+}
+
+function formatListing(results: SearchResult[]): string {
+  return results.map((result, i) =>
+    `${i + 1}. ${new Date(result.timestamp).toLocaleDateString()} (${result.type})\n` +
+    formatDetails(result)
+  ).join('\n');
+}
+
+function formatDetails(result: SearchResult): string {
+  return `   Sections: ${result.sections.join(', ')}\n` +
+    (result.section ? `   Matched section: ${result.section}\n` : '') +
+    (result.project ? `   Project: ${result.project}\n` : '') +
+    (result.id ? `   ID: ${result.id}\n` : '') +
+    `   Entry: ${result.ref}\n` +
+    `   Excerpt: ${result.excerpt}\n`;
+}
@@ -0,0 +1,112 @@
+// ABOUTME: YAML frontmatter serialization and parsing for journal entries
+// ABOUTME: Splits entries into frontmatter and body, and exposes parsed entries as JournalEntry
+
+import { Document, parse, visit } from 'yaml';
+import { JournalEntry } from './types.js';
+
+export type FrontmatterData = Record<string, unknown>;
+
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---\n/;
+
+/**
+ * Separates the raw frontmatter block (delimiters included) from the body
+ * without parsing it; the block is '' for entries without frontmatter.
+ */
+export function splitFrontmatter(markdown: string): { frontmatter: string; body: string } {
+  const match = markdown.match(FRONTMATTER_PATTERN);
+  return match
+    ? { frontmatter: match[0], body: markdown.slice(match[0].length) }
+    : { frontmatter: '', body: markdown };
+}
+
+/**
+ * Parses an entry's frontmatter.
+ * @throws if the frontmatter is not a valid YAML mapping
+ */
+export function parseFrontmatter(markdown: string): { data: FrontmatterData; body: string } {
+  const { frontmatter, body } = splitFrontmatter(markdown);
+  if (!frontmatter) {
+    return { data: {}, body };
+  }
+
+  let data: unknown;
+  try {
+    data = parse(frontmatter.slice(4, -4));
+  } catch (error) {
+    throw new Error(`Invalid frontmatter: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (data === null || data === undefined) {
+    return { data: {}, body };
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid frontmatter: expected key/value pairs');
+  }
+  return { data: data as FrontmatterData, body };
+}
+
+/**
+ * Serializes frontmatter as a `---` delimited YAML block. Undefined values are
+ * left out, strings are quoted whenever YAML requires it, and strings with
+ * spaces are always double-quoted for readability.
+ */
+export function serializeFrontmatter(data: FrontmatterData): string {
+  const defined = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+  const document = new Document(defined);
+
+  visit(document, {
+    Scalar(_key, node) {
+      if (typeof node.value === 'string' && /\s/.test(node.value)) {
+        node.type = 'QUOTE_DOUBLE';
+      }
+    }
+  });
+
+  return `---\n${document.toString({ lineWidth: 0 })}---\n`;
+}
+
+export function formatWithFrontmatter(data: FrontmatterData, body: string): string {
+  return serializeFrontmatter(data) + body;
+}
+
+/**
+ * Reads the metadata of an entry. Entries with unparseable frontmatter are
+ * still returned, with only their body.
+ */
+export function parseJournalEntry(markdown: string, filePath: string): JournalEntry {
+  let data: FrontmatterData;
+  let body: string;
+  try {
+    ({ data, body } = parseFrontmatter(markdown));
+  } catch {
+    ({ body } = splitFrontmatter(markdown));
+    data = {};
+  }
+
+  const text = (value: unknown): string | undefined =>
+    typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+  return {
+    content: body,
+    timestamp: readTimestamp(data),
+    filePath,
+    id: text(data.id),
+    title: text(data.title),
+    date: text(data.date),
+    project: text(data.project),
+    agent: text(data.agent),
+    session: text(data.session),
+    tags: Array.isArray(data.tags) ? data.tags.map(tag => String(tag)) : []
+  };
+}
+
+// Prefers the millisecond `timestamp` field, falling back to the ISO `date`
+function readTimestamp(data: FrontmatterData): Date | undefined {
+  const millis = typeof data.timestamp === 'number' ? data.timestamp : parseInt(String(data.timestamp ?? ''), 10);
+  if (Number.isFinite(millis)) {
+    return new Date(millis);
+  }
+
+  const date = typeof data.date === 'string' ? Date.parse(data.date) : NaN;
+  return Number.isNaN(date) ? undefined : new Date(date);
+}
@@ -0,0 +1,44 @@
+// ABOUTME: Stable identifiers for journal entries
+// ABOUTME: Generates and recognizes ULIDs, which sort by creation time and are unique across machines
+
+import { randomBytes } from 'crypto';
+import { parseJournalEntry } from './frontmatter.js';
+
+// Crockford's base32, as used by ULID
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+
+const ENTRY_ID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+/**
+ * Generates a ULID: 48 bits of millisecond timestamp followed by 80 random bits.
+ */
+export function generateEntryId(time: number = Date.now()): string {
+  let timePart = '';
+  let remaining = time;
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    timePart = ENCODING[remaining % 32] + timePart;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  let randomPart = '';
+  const bytes = randomBytes(RANDOM_LENGTH);
+  for (let i = 0; i < RANDOM_LENGTH; i++) {
+    randomPart += ENCODING[bytes[i] % 32];
+  }
+
+  return timePart + randomPart;
+}
+
+export function isEntryId(value: string): boolean {
+  return ENTRY_ID_PATTERN.test(value);
+}
+
+/**
+ * Reads the `id:` field from an entry's YAML frontmatter.
+ * @returns the entry ID, or undefined for entries written before IDs existed
+ */
+export function readEntryId(markdownContent: string): string | undefined {
+  return parseJournalEntry(markdownContent, '').id;
+}
@@ -4,19 +4,56 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { getUserJournalPath } from './config.js';
-import { EmbeddingService, EmbeddingData } from './embeddings.js';
+import { EmbeddingService, EmbeddingData, EmbeddingChunk, EXTRACTION_VERSION } from './embeddings.js';
+import { generateEntryId, readEntryId } from './ids.js';
+import { isEncryptionEnabled, isSealedEntry, readEntryFile, writeEntryFile } from './encryption.js';
+import { SecretPattern, loadSecretPatterns, redactSecrets } from './redaction.js';
+import { formatWithFrontmatter, parseFrontmatter, parseJournalEntry } from './frontmatter.js';
+import { SectionDefinition, SectionScope, Thoughts, loadSections, normalizeSectionName, resolveSectionHeading } from './sections.js';
 
 export interface JournalMetadata {
   project?: string;
   agent?: string;
+  session?: string; // Shared by every entry written in one conversation
 }
 
+export interface WrittenEntry {
+  id: string;
+  path: string;
+  type: 'project' | 'user';
+  redactions: number; // Secrets replaced with placeholders before writing
+}
+
+export type AmendMode = 'append' | 'replace';
+
+export interface Amendment {
+  mode: AmendMode;
+  content: string;
+  section?: string; // Section to replace, e.g. user_context or User Context
+  reason?: string;
+}
+
+export interface EmbeddingHealth {
+  type: 'project' | 'user';
+  journalPath: string;
+  entries: number;
+  missing: number; // Entries without an embedding
+  stale: number; // Embeddings from another model or extraction version, or unreadable
+  orphaned: number; // Embeddings whose entry no longer exists
+}
+
+export type EmbeddingSavedListener = (embeddingData: EmbeddingData, isUserJournal: boolean) => void;
+export type EmbeddingRemovedListener = (mdPath: string, isUserJournal: boolean) => void;
+
 export class JournalManager {
   private projectJournalPath: string;
   private explicitUserPath: string | undefined;
   private userJournalPath: string | null = null;
   private userJournalPathPromise: Promise<string> | null = null;
   private embeddingService: EmbeddingService;
+  private embeddingListeners: EmbeddingSavedListener[] = [];
+  private removalListeners: EmbeddingRemovedListener[] = [];
+  private pendingEmbeddings = new Set<string>();
 
   constructor(projectJournalPath: string, userJournalPath?: string) {
     this.projectJournalPath = projectJournalPath;
@@ -42,6 +79,21 @@ export class JournalManager {
     return this.userJournalPath;
   }
 
+  /**
+   * Registers a callback invoked whenever an entry's embedding is written,
+   * so long-lived indexes can update without rescanning the disk.
+   */
+  onEmbeddingSaved(listener: EmbeddingSavedListener): void {
+    this.embeddingListeners.push(listener);
+  }
+
+  /**
+   * Registers a callback invoked whenever an entry's embedding is deleted.
+   */
+  onEmbeddingRemoved(listener: EmbeddingRemovedListener): void {
+    this.removalListeners.push(listener);
+  }
+
   async writeEntry(content: string): Promise<void> {
     const timestamp = new Date();
     const dateString = this.formatDate(timestamp);
@@ -60,34 +112,179 @@ export class JournalManager {
     await this.generateEmbeddingForEntry(filePath, formattedEntry, timestamp);
   }
 
-  async writeThoughts(thoughts: {
-    feelings?: string;
-    project_notes?: string;
-    user_context?: string;
-    technical_insights?: string;
-    world_knowledge?: string;
-  }, metadata?: JournalMetadata): Promise<void> {
+  /**
+   * Writes thoughts keyed by section name, splitting them between the project
+   * and user journals according to each section's scope.
+   * @throws if a thought names a section that isn't registered
+   */
+  async writeThoughts(thoughts: Thoughts, metadata?: JournalMetadata): Promise<WrittenEntry[]> {
     const timestamp = new Date();
+    const written: WrittenEntry[] = [];
+    const secretPatterns = await loadSecretPatterns();
+    const sections = await loadSections();
+
+    const unknown = Object.keys(thoughts).filter(name => thoughts[name] !== undefined && !sections.some(section => section.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown section: ${unknown.join(', ')}`);
+    }
 
     // Split thoughts into project-local and user-global
-    const projectThoughts = { project_notes: thoughts.project_notes };
-    const userThoughts = {
-      feelings: thoughts.feelings,
-      user_context: thoughts.user_context,
-      technical_insights: thoughts.technical_insights,
-      world_knowledge: thoughts.world_knowledge
-    };
+    const inScope = (scope: SectionScope): SectionDefinition[] =>
+      sections.filter(section => section.scope === scope && thoughts[section.name] !== undefined);
+    const projectSections = inScope('project').filter(section => thoughts[section.name]);
+    const userSections = inScope('user');
 
     // Write project notes to project directory
-    if (projectThoughts.project_notes) {
-      await this.writeThoughtsToLocation(projectThoughts, timestamp, this.projectJournalPath, metadata);
+    if (projectSections.length > 0) {
+      written.push(await this.writeThoughtsToLocation(thoughts, projectSections, timestamp, this.projectJournalPath, metadata, 'project', secretPatterns));
     }
 
     // Write user thoughts to user directory
-    const hasUserContent = Object.values(userThoughts).some(value => value !== undefined);
-    if (hasUserContent) {
+    if (userSections.length > 0) {
       const userPath = await this.resolveUserJournalPath();
-      await this.writeThoughtsToLocation(userThoughts, timestamp, userPath, metadata);
+      written.push(await this.writeThoughtsToLocation(thoughts, userSections, timestamp, userPath, metadata, 'user', secretPatterns));
+    }
+
+    return written;
+  }
+
+  /**
+   * Changes an existing entry: either appends a dated addendum or replaces the
+   * body of one section. Each change is recorded under `revisions` in the
+   * frontmatter, and the entry's embedding is regenerated.
+   * @param filePath - markdown file of the entry, already checked to be inside a journal
+   * @returns number of secrets replaced with placeholders in the new content and reason
+   */
+  async amendEntry(filePath: string, amendment: Amendment): Promise<number> {
+    const sections = await loadSections();
+    const { text: content, count } = redactSecrets(amendment.content, await loadSecretPatterns());
+    const reasonCount = await this.reviseEntry(filePath, amendment.mode, amendment.reason, (body, now) => {
+      if (amendment.mode === 'replace') {
+        if (!amendment.section) {
+          throw new Error('A section is required to replace');
+        }
+        return this.replaceSection(body, amendment.section, content, sections);
+      }
+
+      const hours = String(now.getHours()).padStart(2, '0');
+      const minutes = String(now.getMinutes()).padStart(2, '0');
+      const heading = `Addendum (${this.formatDate(now)} ${hours}:${minutes})`;
+      return { body: `${body.trimEnd()}\n\n## ${heading}\n\n${content.trim()}\n`, heading };
+    });
+    return count + reasonCount;
+  }
+
+  /**
+   * Removes one section and its tag from an entry and re-embeds what is left,
+   * so the redacted text disappears from both the markdown and the search index.
+   * @param filePath - markdown file of the entry, already checked to be inside a journal
+   */
+  async redactSection(filePath: string, section: string, reason?: string): Promise<void> {
+    const sections = await loadSections();
+    await this.reviseEntry(filePath, 'redact', reason, body => {
+      const result = this.replaceSection(body, section, null, sections);
+      const removed = sections.find(({ heading }) => normalizeSectionName(heading) === normalizeSectionName(result.heading));
+      return { ...result, removedTags: removed ? [removed.tag] : [] };
+    });
+  }
+
+  /**
+   * Deletes an entry's markdown together with its embedding.
+   * @param filePath - markdown file of the entry, already checked to be inside a journal
+   */
+  async deleteEntry(filePath: string): Promise<void> {
+    await fs.rm(filePath);
+    await this.removeEmbedding(filePath);
+  }
+
+  /**
+   * Rewrites an entry's body and records the change under `revisions`.
+   * @returns number of secrets scrubbed from the reason
+   */
+  private async reviseEntry(
+    filePath: string,
+    action: AmendMode | 'redact',
+    reason: string | undefined,
+    edit: (body: string, now: Date) => { body: string; heading: string; removedTags?: string[] }
+  ): Promise<number> {
+    const { data, body: oldBody } = parseFrontmatter(await readEntryFile(filePath));
+    const now = new Date();
+
+    const { body, heading, removedTags = [] } = edit(oldBody, now);
+    if (removedTags.length > 0 && Array.isArray(data.tags)) {
+      data.tags = data.tags.filter(tag => !removedTags.includes(String(tag)));
+    }
+
+    // Frontmatter stays readable even in an encrypted journal, so the reason is scrubbed too
+    const scrubbed = reason === undefined ? undefined : redactSecrets(reason, await loadSecretPatterns());
+    const revisions = Array.isArray(data.revisions) ? data.revisions : [];
+    revisions.push({ date: now.toISOString(), action, section: heading, reason: scrubbed?.text });
+
+    await writeEntryFile(filePath, formatWithFrontmatter({ ...data, revisions }, body), await this.isUserJournalFile(filePath));
+
+    // Drop the old embedding first: an entry left without text gets no new one
+    await this.removeEmbedding(filePath);
+    await this.ensureEmbedding(filePath, true);
+    return scrubbed?.count ?? 0;
+  }
+
+  /**
+   * Replaces the body of a section, or removes the section when content is null.
+   */
+  private replaceSection(
+    body: string,
+    section: string,
+    content: string | null,
+    sections: SectionDefinition[]
+  ): { body: string; heading: string } {
+    // Accept both section names (user_context) and headings (User Context)
+    const target = normalizeSectionName(resolveSectionHeading(section, sections));
+    const lines = body.split('\n');
+
+    const start = lines.findIndex(line => line.startsWith('## ') && normalizeSectionName(line.slice(3)) === target);
+    if (start === -1) {
+      throw new Error(`Section "${section}" not found in entry`);
+    }
+
+    let end = lines.findIndex((line, i) => i > start && line.startsWith('## '));
+    if (end === -1) {
+      end = lines.length;
+    }
+
+    const heading = lines[start].slice(3).trim();
+    if (content === null) {
+      const remaining = [...lines.slice(0, start), ...lines.slice(end)].join('\n');
+      return { body: end === lines.length ? `${remaining.trimEnd()}\n` : remaining, heading };
+    }
+
+    const replaced = [...lines.slice(0, start), lines[start], '', content.trim(), '', ...lines.slice(end)];
+    return { body: replaced.join('\n'), heading };
+  }
+
+  private async removeEmbedding(filePath: string): Promise<void> {
+    const isUserJournal = await this.isUserJournalFile(filePath);
+    await this.embeddingService.removeEmbedding(filePath, isUserJournal);
+    this.removalListeners.forEach(listener => listener(filePath, isUserJournal));
+  }
+
+  /**
+   * Whether a markdown file belongs to the user journal. Entry paths resolved
+   * for tools are real paths, so a user journal reached through a symlink is
+   * compared by its real path too.
+   */
+  private async isUserJournalFile(filePath: string): Promise<boolean> {
+    const userPath = await this.resolveUserJournalPath();
+    if (filePath.startsWith(userPath)) {
+      return true;
+    }
+
+    try {
+      // The entry itself may already be gone, so resolve its directory
+      const realFilePath = path.join(await fs.realpath(path.dirname(filePath)), path.basename(filePath));
+      const relative = path.relative(await fs.realpath(userPath), realFilePath);
+      return relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+    } catch {
+      return false; // Journal or entry directory doesn't exist
     }
   }
 
@@ -119,28 +316,22 @@ export class JournalManager {
       day: 'numeric' 
     });
 
-    return `---
-title: "${timeDisplay} - ${dateDisplay}"
-date: ${timestamp.toISOString()}
-timestamp: ${timestamp.getTime()}
----
-
-${content}
-`;
+    return formatWithFrontmatter({
+      title: `${timeDisplay} - ${dateDisplay}`,
+      date: timestamp.toISOString(),
+      timestamp: timestamp.getTime()
+    }, `\n${content}\n`);
   }
 
   private async writeThoughtsToLocation(
-    thoughts: {
-      feelings?: string;
-      project_notes?: string;
-      user_context?: string;
-      technical_insights?: string;
-      world_knowledge?: string;
-    },
+    thoughts: Thoughts,
+    sections: SectionDefinition[],
     timestamp: Date,
     basePath: string,
-    metadata?: JournalMetadata
-  ): Promise<void> {
+    metadata: JournalMetadata | undefined,
+    type: 'project' | 'user',
+    secretPatterns: SecretPattern[]
+  ): Promise<WrittenEntry> {
     const dateString = this.formatDate(timestamp);
     const timeString = this.formatTimestamp(timestamp);
 
@@ -150,20 +341,36 @@ ${content}
 
     await this.ensureDirectoryExists(dayDirectory);
 
-    const formattedEntry = this.formatThoughts(thoughts, timestamp, metadata);
-    await fs.writeFile(filePath, formattedEntry, 'utf8');
+    // Scrub secrets before anything reaches the disk or the embedding provider
+    let redactions = 0;
+    const scrubbed: Thoughts = {};
+    for (const { name } of sections) {
+      const value = thoughts[name];
+      if (value) {
+        const result = redactSecrets(value, secretPatterns);
+        scrubbed[name] = result.text;
+        redactions += result.count;
+      } else {
+        scrubbed[name] = value;
+      }
+    }
+
+    const id = generateEntryId(timestamp.getTime());
+    const formattedEntry = this.formatThoughts(scrubbed, sections, timestamp, id, metadata);
+    await writeEntryFile(filePath, formattedEntry, type === 'user');
 
     // Generate and save embedding
     await this.generateEmbeddingForEntry(filePath, formattedEntry, timestamp);
+    return { id, path: filePath, type, redactions };
   }
 
-  private formatThoughts(thoughts: {
-    feelings?: string;
-    project_notes?: string;
-    user_context?: string;
-    technical_insights?: string;
-    world_knowledge?: string;
-  }, timestamp: Date, metadata?: JournalMetadata): string {
+  private formatThoughts(
+    thoughts: Thoughts,
+    sections: SectionDefinition[],
+    timestamp: Date,
+    id: string,
+    metadata?: JournalMetadata
+  ): string {
     const timeDisplay = timestamp.toLocaleTimeString('en-US', {
       hour12: true,
       hour: 'numeric',
@@ -176,60 +383,22 @@ ${content}
       day: 'numeric'
     });
 
-    const sections = [];
-
-    if (thoughts.feelings) {
-      sections.push(`## Feelings\n\n${thoughts.feelings}`);
-    }
-
-    if (thoughts.project_notes) {
-      sections.push(`## Project Notes\n\n${thoughts.project_notes}`);
-    }
-
-    if (thoughts.user_context) {
-      sections.push(`## User Context\n\n${thoughts.user_context}`);
-    }
-
-    if (thoughts.technical_insights) {
-      sections.push(`## Technical Insights\n\n${thoughts.technical_insights}`);
-    }
-
-    if (thoughts.world_knowledge) {
-      sections.push(`## World Knowledge\n\n${thoughts.world_knowledge}`);
-    }
-
-    // Build tags array - always include agentic-journal plus section names
-    const tags = ['agentic-journal'];
-    if (thoughts.feelings) tags.push('feelings');
-    if (thoughts.project_notes) tags.push('project-notes');
-    if (thoughts.user_context) tags.push('user-context');
-    if (thoughts.technical_insights) tags.push('technical-insights');
-    if (thoughts.world_knowledge) tags.push('world-knowledge');
-
-    // Build frontmatter
-    let frontmatter = `---
-title: "${timeDisplay} - ${dateDisplay}"
-date: ${timestamp.toISOString()}
-timestamp: ${timestamp.getTime()}`;
-
-    if (metadata?.project) {
-      frontmatter += `\nproject: ${metadata.project}`;
-    }
-
-    if (metadata?.agent) {
-      frontmatter += `\nagent: ${metadata.agent}`;
-    }
-
-    frontmatter += '\ntags:\n';
-    tags.forEach(tag => {
-      frontmatter += `  - ${tag}\n`;
-    });
-
-    frontmatter += '---\n';
-
-    return `${frontmatter}
-${sections.join('\n\n')}
-`;
+    const written = sections.filter(section => thoughts[section.name]);
+    const body = written.map(section => `## ${section.heading}\n\n${thoughts[section.name]}`);
+
+    // Tags: always agentic-journal, plus one per section present
+    const tags = ['agentic-journal', ...written.map(section => section.tag)];
+
+    return formatWithFrontmatter({
+      id,
+      title: `${timeDisplay} - ${dateDisplay}`,
+      date: timestamp.toISOString(),
+      timestamp: timestamp.getTime(),
+      project: metadata?.project,
+      agent: metadata?.agent,
+      session: metadata?.session,
+      tags
+    }, `\n${body.join('\n\n')}\n`);
   }
 
   private async generateEmbeddingForEntry(
@@ -237,6 +406,7 @@ ${sections.join('\n\n')}
     content: string,
     timestamp: Date
   ): Promise<void> {
+    this.pendingEmbeddings.add(filePath);
     try {
       const { text, sections } = this.embeddingService.extractSearchableText(content);
 
@@ -246,65 +416,285 @@ ${sections.join('\n\n')}
 
       const embedding = await this.embeddingService.generateEmbedding(text);
 
+      // Embed each section separately so short notes aren't drowned out by long ones
+      const chunks: EmbeddingChunk[] = [];
+      for (const chunk of this.embeddingService.extractSectionChunks(content)) {
+        chunks.push({
+          ...chunk,
+          embedding: await this.embeddingService.generateEmbedding(chunk.text)
+        });
+      }
+
       const embeddingData: EmbeddingData = {
         embedding,
         text,
         sections,
         timestamp: timestamp.getTime(),
-        path: filePath
+        path: filePath,
+        id: readEntryId(content),
+        ...this.embeddingService.extractMetadata(content),
+        chunks,
+        model: this.embeddingService.modelId,
+        dimensions: embedding.length,
+        extractionVersion: EXTRACTION_VERSION
       };
 
-      // Determine if this is a user journal by checking if path starts with userJournalPath
-      const userPath = await this.resolveUserJournalPath();
-      const isUserJournal = filePath.startsWith(userPath);
+      const isUserJournal = await this.isUserJournalFile(filePath);
 
       await this.embeddingService.saveEmbedding(filePath, embeddingData, isUserJournal);
+      this.embeddingListeners.forEach(listener => listener(embeddingData, isUserJournal));
     } catch (error) {
       console.error(`Failed to generate embedding for ${filePath}:`, error);
       // Don't throw - embedding failure shouldn't prevent journal writing
+    } finally {
+      this.pendingEmbeddings.delete(filePath);
+    }
+  }
+
+  /**
+   * Generates an embedding for an existing markdown entry if it has none or
+   * its embedding is stale (different model, dimensions or text extraction),
+   * e.g. for entries synced in from another machine.
+   * @param force - regenerate even if the current embedding is up to date
+   * @returns true if a new embedding was generated
+   */
+  async ensureEmbedding(mdPath: string, force: boolean = false): Promise<boolean> {
+    if (this.pendingEmbeddings.has(mdPath)) {
+      return false;
+    }
+
+    if (!force) {
+      let existing: EmbeddingData | null;
+      try {
+        existing = await this.embeddingService.loadEmbedding(mdPath, await this.isUserJournalFile(mdPath));
+      } catch {
+        existing = null; // Unreadable embeddings are regenerated
+      }
+
+      if (existing && !this.embeddingService.isStale(existing)) {
+        return false;
+      }
+    }
+
+    let content: string;
+    try {
+      content = await readEntryFile(mdPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        // Entry was removed; don't leave its embedding behind
+        await this.removeEmbedding(mdPath);
+        return false;
+      }
+      throw error;
+    }
+
+    console.error(`Generating embedding for ${mdPath}`);
+    const timestamp = this.extractTimestampFromContent(content) || this.extractTimestampFromPath(mdPath) || new Date();
+    await this.generateEmbeddingForEntry(mdPath, content, timestamp);
+    return true;
+  }
+
+  /**
+   * Brings the embedding of an entry changed outside the server up to date:
+   * removes it if the entry is gone or empty, and regenerates it if the
+   * entry's text or metadata no longer match the embedded copy.
+   * @returns true if a new embedding was generated
+   */
+  async syncEntry(mdPath: string): Promise<boolean> {
+    if (this.pendingEmbeddings.has(mdPath)) {
+      return false;
+    }
+
+    let content: string;
+    try {
+      content = await readEntryFile(mdPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        await this.removeEmbedding(mdPath);
+        return false;
+      }
+      throw error;
+    }
+
+    const { text, sections } = this.embeddingService.extractSearchableText(content);
+    if (text.trim().length === 0) {
+      await this.removeEmbedding(mdPath);
+      return false;
     }
+
+    let existing: EmbeddingData | null;
+    try {
+      existing = await this.embeddingService.loadEmbedding(mdPath, await this.isUserJournalFile(mdPath));
+    } catch {
+      existing = null; // Unreadable embeddings are regenerated
+    }
+
+    const metadata = this.embeddingService.extractMetadata(content);
+    const unchanged = existing
+      && !this.embeddingService.isStale(existing)
+      && existing.text === text
+      && existing.id === readEntryId(content)
+      && JSON.stringify(existing.sections) === JSON.stringify(sections)
+      && existing.project === metadata.project
+      && existing.agent === metadata.agent
+      && existing.session === metadata.session
+      && JSON.stringify(existing.tags || []) === JSON.stringify(metadata.tags);
+    if (unchanged) {
+      return false;
+    }
+
+    console.error(`Updating embedding for ${mdPath}`);
+    const timestamp = this.extractTimestampFromContent(content) || this.extractTimestampFromPath(mdPath) || new Date();
+    await this.generateEmbeddingForEntry(mdPath, content, timestamp);
+    return true;
   }
 
+  /**
+   * Moves existing per-file JSON embeddings into the packed index when the
+   * packed storage format is configured; a no-op otherwise.
+   * @returns number of migrated embeddings
+   */
+  async migrateEmbeddingStorage(): Promise<number> {
+    const userPath = await this.resolveUserJournalPath();
+    let count = await this.embeddingService.migrateStorage(this.projectJournalPath, false);
+    count += await this.embeddingService.migrateStorage(userPath, true);
+    return count;
+  }
+
+  /**
+   * Generates embeddings for entries that have none or whose embeddings are
+   * stale, after deleting embeddings whose entries no longer exist.
+   * @returns number of embeddings generated
+   */
   async generateMissingEmbeddings(): Promise<number> {
-    let count = 0;
+    const removed = await this.removeOrphanedEmbeddings();
+    if (removed > 0) {
+      console.error(`Removed ${removed} orphaned embeddings.`);
+    }
+    return this.refreshEmbeddings(false);
+  }
+
+  /**
+   * Deletes embeddings left behind by entries removed outside the server,
+   * e.g. by hand or through sync.
+   * @returns number of embeddings removed
+   */
+  async removeOrphanedEmbeddings(): Promise<number> {
     const userPath = await this.resolveUserJournalPath();
-    const paths = [this.projectJournalPath, userPath];
+    let count = 0;
 
-    for (const basePath of paths) {
-      try {
-        const dayDirs = await fs.readdir(basePath);
+    for (const { journalPath, isUserJournal } of [
+      { journalPath: this.projectJournalPath, isUserJournal: false },
+      { journalPath: userPath, isUserJournal: true }
+    ]) {
+      const removed = await this.embeddingService.removeOrphanedEmbeddings(journalPath, isUserJournal);
+      removed.forEach(mdPath => this.removalListeners.forEach(listener => listener(mdPath, isUserJournal)));
+      count += removed.length;
+    }
 
-        for (const dayDir of dayDirs) {
-          const dayPath = path.join(basePath, dayDir);
-          const stat = await fs.stat(dayPath);
+    return count;
+  }
 
-          if (!stat.isDirectory() || !dayDir.match(/^\d{4}-\d{2}-\d{2}$/)) {
-            continue;
-          }
+  /**
+   * Counts missing, stale and orphaned embeddings in both journals without
+   * changing anything; generateMissingEmbeddings fixes all three.
+   */
+  async checkEmbeddings(): Promise<EmbeddingHealth[]> {
+    const userPath = await this.resolveUserJournalPath();
+    const health: EmbeddingHealth[] = [];
+
+    for (const { journalPath, type } of [
+      { journalPath: this.projectJournalPath, type: 'project' as const },
+      { journalPath: userPath, type: 'user' as const }
+    ]) {
+      const isUserJournal = type === 'user';
+      const entryFiles = await this.listEntryFiles(journalPath);
+      const status: EmbeddingHealth = {
+        type,
+        journalPath,
+        entries: entryFiles.length,
+        missing: 0,
+        stale: 0,
+        orphaned: (await this.embeddingService.findOrphanedEmbeddings(journalPath, isUserJournal)).length
+      };
 
-          const files = await fs.readdir(dayPath);
-          const mdFiles = files.filter(file => file.endsWith('.md'));
-
-          for (const mdFile of mdFiles) {
-            const mdPath = path.join(dayPath, mdFile);
-            const embeddingPath = mdPath.replace(/\.md$/, '.embedding');
-
-            try {
-              await fs.access(embeddingPath);
-              // Embedding already exists, skip
-            } catch {
-              // Generate missing embedding
-              console.error(`Generating missing embedding for ${mdPath}`);
-              const content = await fs.readFile(mdPath, 'utf8');
-              const timestamp = this.extractTimestampFromPath(mdPath) || new Date();
-              await this.generateEmbeddingForEntry(mdPath, content, timestamp);
-              count++;
-            }
+      for (const mdPath of entryFiles) {
+        try {
+          const existing = await this.embeddingService.loadEmbedding(mdPath, isUserJournal);
+          if (!existing) {
+            status.missing++;
+          } else if (this.embeddingService.isStale(existing)) {
+            status.stale++;
           }
+        } catch {
+          status.stale++; // Unreadable embeddings are regenerated
         }
+      }
+      health.push(status);
+    }
+
+    return health;
+  }
+
+  /**
+   * Regenerates the embedding of every entry in the project and user journals.
+   * @returns number of embeddings generated
+   */
+  async reindex(): Promise<number> {
+    return this.refreshEmbeddings(true);
+  }
+
+  /**
+   * Encrypts the bodies of existing plaintext user journal entries, and
+   * rewrites their embeddings encrypted, using the configured key.
+   * @returns number of entries encrypted
+   */
+  async encryptUserJournal(): Promise<number> {
+    if (!isEncryptionEnabled()) {
+      throw new Error('No encryption key configured; set AGENTIC_JOURNAL_KEY or AGENTIC_JOURNAL_KEYFILE');
+    }
+
+    const userPath = await this.resolveUserJournalPath();
+    let count = 0;
+
+    for (const mdPath of await this.listEntryFiles(userPath)) {
+      const content = await fs.readFile(mdPath, 'utf8');
+      if (!isSealedEntry(content)) {
+        await writeEntryFile(mdPath, content, true);
+        count++;
+      }
+
+      // Saving re-encrypts; also covers embeddings left plaintext by an interrupted run
+      const embeddingData = await this.embeddingService.loadEmbedding(mdPath, true);
+      if (embeddingData) {
+        await this.embeddingService.saveEmbedding(mdPath, embeddingData, true);
+      }
+    }
+
+    return count;
+  }
+
+  private async refreshEmbeddings(force: boolean): Promise<number> {
+    let count = 0;
+    const userPath = await this.resolveUserJournalPath();
+
+    for (const basePath of [this.projectJournalPath, userPath]) {
+      let entryFiles: string[];
+      try {
+        entryFiles = await this.listEntryFiles(basePath);
       } catch (error) {
-        if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
-          console.error(`Failed to scan ${basePath} for missing embeddings:`, error);
+        console.error(`Failed to scan ${basePath} for missing embeddings:`, error);
+        continue;
+      }
+
+      for (const mdPath of entryFiles) {
+        try {
+          if (await this.ensureEmbedding(mdPath, force)) {
+            count++;
+          }
+        } catch (error) {
+          // e.g. an encrypted entry while no key is configured
+          console.error(`Failed to index ${mdPath}:`, error);
         }
       }
     }
@@ -312,6 +702,40 @@ ${sections.join('\n\n')}
     return count;
   }
 
+  /**
+   * Markdown entries of a journal, in <YYYY-MM-DD>/<time>.md day directories.
+   */
+  private async listEntryFiles(basePath: string): Promise<string[]> {
+    let dayDirs: string[];
+    try {
+      dayDirs = await fs.readdir(basePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return []; // Journal doesn't exist yet
+      }
+      throw error;
+    }
+
+    const entryFiles: string[] = [];
+    for (const dayDir of dayDirs) {
+      const dayPath = path.join(basePath, dayDir);
+      const stat = await fs.stat(dayPath);
+
+      if (!stat.isDirectory() || !dayDir.match(/^\d{4}-\d{2}-\d{2}$/)) {
+        continue;
+      }
+
+      const files = await fs.readdir(dayPath);
+      entryFiles.push(...files.filter(file => file.endsWith('.md')).map(file => path.join(dayPath, file)));
+    }
+
+    return entryFiles;
+  }
+
+  private extractTimestampFromContent(content: string): Date | null {
+    return parseJournalEntry(content, '').timestamp || null;
+  }
+
   private extractTimestampFromPath(filePath: string): Date | null {
     const filename = path.basename(filePath, '.md');
     const match = filename.match(/^(\d{2})-(\d{2})-(\d{2})-\d{6}$/);
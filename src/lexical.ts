@@ -0,0 +1,139 @@
+// ABOUTME: Local BM25 keyword index over journal entry text
+// ABOUTME: Catches exact identifiers like error codes and function names that embeddings miss
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Splits text into lowercase search terms. Compound identifiers such as
+ * `ERR_SOME-CODE`, `JIRA-1234` or `config.ts` are kept whole and also
+ * contribute their individual parts, so both exact and partial queries match.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[\p{L}\p{N}_]+(?:[-.:/][\p{L}\p{N}_]+)*/gu) || [];
+
+  for (const match of matches) {
+    tokens.push(match);
+    if (/[-.:/]/.test(match)) {
+      tokens.push(...match.split(/[-.:/]+/).filter(part => part.length > 0));
+    }
+  }
+
+  return tokens;
+}
+
+export class LexicalIndex {
+  private termFrequencies = new Map<string, Map<string, number>>();
+  private documentLengths = new Map<string, number>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documentLengths.size;
+  }
+
+  add(id: string, text: string): void {
+    if (this.documentLengths.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const term of frequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    }
+
+    this.termFrequencies.set(id, frequencies);
+    this.documentLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const frequencies = this.termFrequencies.get(id);
+    if (!frequencies) {
+      return;
+    }
+
+    for (const term of frequencies.keys()) {
+      const count = (this.documentFrequencies.get(term) || 1) - 1;
+      if (count === 0) {
+        this.documentFrequencies.delete(term);
+      } else {
+        this.documentFrequencies.set(term, count);
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(id) || 0;
+    this.termFrequencies.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  /**
+   * Scores every document containing at least one query term with BM25.
+   * Documents without any matching term are absent from the result.
+   */
+  score(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const documentCount = this.documentLengths.size;
+    if (documentCount === 0) {
+      return scores;
+    }
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const queryTerms = Array.from(new Set(tokenize(query)));
+
+    for (const term of queryTerms) {
+      const documentFrequency = this.documentFrequencies.get(term);
+      if (!documentFrequency) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+      for (const [id, frequencies] of this.termFrequencies) {
+        const termFrequency = frequencies.get(term);
+        if (!termFrequency) {
+          continue;
+        }
+
+        const length = this.documentLengths.get(id) || 0;
+        const numerator = termFrequency * (BM25_K1 + 1);
+        const denominator = termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + idf * (numerator / denominator));
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Same as score(), but divided by the best match so values fall in [0, 1]
+   * and can be blended with cosine similarities. When candidates are given,
+   * only those documents are returned and normalization is relative to them.
+   */
+  normalizedScore(query: string, candidates?: Set<string>): Map<string, number> {
+    const scores = this.score(query);
+    if (candidates) {
+      for (const id of scores.keys()) {
+        if (!candidates.has(id)) {
+          scores.delete(id);
+        }
+      }
+    }
+
+    const best = Math.max(0, ...scores.values());
+    if (best === 0) {
+      return new Map();
+    }
+
+    for (const [id, value] of scores) {
+      scores.set(id, value / best);
+    }
+    return scores;
+  }
+}
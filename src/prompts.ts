@@ -0,0 +1,135 @@
+// ABOUTME: MCP prompts that start structured reflections from past journal entries
+// ABOUTME: Each prompt fills in recent entries or search results before handing over to the agent
+
+import { SearchService } from './search.js';
+import { formatRecentEntries, formatSearchResults } from './formatters.js';
+import { parseDateRange } from './dates.js';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface JournalPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptMessage {
+  role: 'user';
+  content: { type: 'text'; text: string };
+}
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition extends JournalPrompt {
+  build(args: PromptArgs, searchService: SearchService): Promise<string>;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'end_of_session_reflection',
+    description: 'Reflect on the session that just ended and record what is worth remembering',
+    arguments: [
+      { name: 'summary', description: 'What the session was about, in a sentence or two' }
+    ],
+    async build(args, searchService): Promise<string> {
+      const today = await searchService.listRecent({ limit: 10, dateRange: parseDateRange('today') });
+      return [
+        'The session is wrapping up. Take a moment to reflect on it before it is gone.',
+        args.summary ? `What the session was about: ${args.summary}` : '',
+        `Entries already written today, so you don't repeat them:\n\n${formatRecentEntries(today, 'today')}`,
+        'Then call process_thoughts with whatever is genuinely worth keeping: how the session felt (feelings), ' +
+        'what you learned about this codebase (project_notes), about the user (user_context), and about ' +
+        'techniques or tools (technical_insights). Skip any section with nothing new to say.'
+      ].filter(Boolean).join('\n\n');
+    }
+  },
+  {
+    name: 'retro_on_bug',
+    description: 'Run a short retrospective on a bug that was just fixed',
+    arguments: [
+      { name: 'bug', description: 'The bug: symptom, error message or root cause', required: true }
+    ],
+    async build(args, searchService): Promise<string> {
+      const related = await searchService.search(args.bug!, { limit: 5 });
+      return [
+        `Let's do a retrospective on this bug: ${args.bug}`,
+        `Related journal entries, which may show whether this has happened before:\n\n${formatSearchResults(related)}`,
+        'Work through: what the root cause was, what misled you along the way, how it could have been caught ' +
+        'sooner, and whether it repeats an earlier lesson. Then record the takeaways with process_thoughts, ' +
+        'putting reusable lessons in technical_insights and anything specific to this codebase in project_notes.'
+      ].join('\n\n');
+    }
+  },
+  {
+    name: 'summarize_user_preferences',
+    description: "Summarize what the journal says about the user's preferences and working style",
+    arguments: [
+      { name: 'topic', description: 'Narrow the summary to one area, e.g. code review or testing' }
+    ],
+    async build(args, searchService): Promise<string> {
+      const query = args.topic || 'preferences, working style and communication';
+      const notes = await searchService.search(query, { limit: 10, type: 'user', sections: ['user_context'] });
+      return [
+        `Summarize what you know about the user's preferences${args.topic ? ` regarding ${args.topic}` : ''}.`,
+        `Relevant notes from the journal:\n\n${formatSearchResults(notes)}`,
+        'Read any entry you need in full with read_journal_entry. Group the preferences by theme, note where ' +
+        'later entries contradict earlier ones (prefer the most recent), and say which points rest on a single observation.'
+      ].join('\n\n');
+    }
+  },
+  {
+    name: 'pre_task_recall',
+    description: 'Recall relevant lessons and context before starting a task',
+    arguments: [
+      { name: 'task', description: 'The task about to be started', required: true }
+    ],
+    async build(args, searchService): Promise<string> {
+      const related = await searchService.search(args.task!, { limit: 8 });
+      return [
+        `Before starting on this task, recall what the journal already knows about it: ${args.task}`,
+        `Possibly relevant entries:\n\n${formatSearchResults(related)}`,
+        'List the lessons, pitfalls and user preferences from these entries that apply to the task, reading ' +
+        'entries in full with read_journal_entry where the excerpt is not enough. Ignore entries that turn out ' +
+        'to be unrelated, and say so if nothing applies.'
+      ].join('\n\n');
+    }
+  }
+];
+
+export class JournalPrompts {
+  constructor(private readonly searchService: SearchService) {}
+
+  list(): JournalPrompt[] {
+    return PROMPTS.map(({ name, description, arguments: promptArguments }) => ({ name, description, arguments: promptArguments }));
+  }
+
+  /**
+   * Builds the messages of a prompt from its arguments and the journal.
+   * @throws if the prompt doesn't exist or a required argument is missing
+   */
+  async get(name: string, args: PromptArgs = {}): Promise<{ description: string; messages: PromptMessage[] }> {
+    const prompt = PROMPTS.find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const trimmed: PromptArgs = {};
+    for (const argument of prompt.arguments) {
+      const value = args[argument.name]?.trim();
+      if (argument.required && !value) {
+        throw new Error(`${argument.name} is required for prompt ${name}`);
+      }
+      trimmed[argument.name] = value || undefined;
+    }
+
+    const text = await prompt.build(trimmed, this.searchService);
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  }
+}
@@ -0,0 +1,113 @@
+// ABOUTME: Exposes journal entries through the MCP resources API as journal:// URIs
+// ABOUTME: Paginated listing with frontmatter details, reads by entry reference or ID
+
+import { SearchResult, SearchService } from './search.js';
+import { isEntryId } from './ids.js';
+
+export const RESOURCE_SCHEME = 'journal://';
+export const RESOURCE_PAGE_SIZE = 50;
+
+const MIME_TYPE = 'text/markdown';
+
+// journal://user/2025-12-22/14-30-45-123456 or journal://id/01JFQ8Z6X3M9K2T7V4B5N0R1CD
+const REF_URI_PATTERN = /^journal:\/\/((?:project|user)\/\d{4}-\d{2}-\d{2}\/[\w-]+)$/;
+const ID_URI_PATTERN = /^journal:\/\/id\/([0-9A-Z]+)$/;
+
+export interface JournalResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}{type}/{date}/{entry}`,
+    name: 'Journal entry by reference',
+    description: "Entry reference as shown in search results, with type 'project' or 'user', e.g. journal://user/2025-12-22/14-30-45-123456",
+    mimeType: MIME_TYPE
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}id/{id}`,
+    name: 'Journal entry by ID',
+    description: 'Stable entry ID from the frontmatter, e.g. journal://id/01JFQ8Z6X3M9K2T7V4B5N0R1CD',
+    mimeType: MIME_TYPE
+  }
+];
+
+export class JournalResources {
+  constructor(private readonly searchService: SearchService) {}
+
+  /**
+   * Lists entries, most recent first, one page at a time.
+   * @param cursor - nextCursor returned with the previous page
+   * @throws if the cursor is invalid
+   */
+  async list(cursor?: string): Promise<{ resources: JournalResource[]; nextCursor?: string }> {
+    const offset = cursor === undefined ? 0 : parseCursor(cursor);
+    // One extra entry tells whether another page follows
+    const entries = await this.searchService.listRecent({ limit: offset + RESOURCE_PAGE_SIZE + 1 });
+    const page = entries.slice(offset, offset + RESOURCE_PAGE_SIZE);
+
+    return {
+      resources: page.map(entry => ({
+        uri: `${RESOURCE_SCHEME}${entry.ref}`,
+        name: `${new Date(entry.timestamp).toLocaleString()} (${entry.type})`,
+        description: describeEntry(entry),
+        mimeType: MIME_TYPE
+      })),
+      nextCursor: entries.length > offset + RESOURCE_PAGE_SIZE ? String(offset + RESOURCE_PAGE_SIZE) : undefined
+    };
+  }
+
+  /**
+   * Reads the markdown of the entry a journal:// URI names.
+   * @throws if the URI is not a journal entry URI or the entry doesn't exist
+   */
+  async read(uri: string): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+    const entry = parseResourceUri(uri);
+    const text = entry ? await this.searchService.readEntry(entry) : null;
+    if (text === null) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    return { contents: [{ uri, mimeType: MIME_TYPE, text }] };
+  }
+}
+
+/**
+ * Entry reference or ID named by a journal:// URI, or null for any other URI.
+ */
+export function parseResourceUri(uri: string): string | null {
+  const ref = uri.match(REF_URI_PATTERN);
+  if (ref) {
+    return ref[1];
+  }
+  const id = uri.match(ID_URI_PATTERN);
+  return id && isEntryId(id[1]) ? id[1] : null;
+}
+
+/**
+ * Frontmatter details and excerpt of an entry; the MCP resource schema has no
+ * field for structured metadata, so they go in the description.
+ */
+function describeEntry(entry: SearchResult): string {
+  const details = [
+    entry.id ? `ID: ${entry.id}` : undefined,
+    `Type: ${entry.type}`,
+    `Date: ${new Date(entry.timestamp).toISOString()}`,
+    entry.sections.length > 0 ? `Sections: ${entry.sections.join(', ')}` : undefined,
+    entry.project ? `Project: ${entry.project}` : undefined,
+    entry.agent ? `Agent: ${entry.agent}` : undefined,
+    entry.tags && entry.tags.length > 0 ? `Tags: ${entry.tags.join(', ')}` : undefined
+  ].filter((line): line is string => line !== undefined);
+
+  return entry.excerpt ? `${details.join('\n')}\n\n${entry.excerpt}` : details.join('\n');
+}
+
+function parseCursor(cursor: string): number {
+  const offset = Number(cursor);
+  if (!/^\d+$/.test(cursor) || !Number.isSafeInteger(offset)) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  return offset;
+}
@@ -2,23 +2,41 @@
 // ABOUTME: Provides unified search across project and user journal entries
 
 import * as fs from 'fs/promises';
+import { watch, FSWatcher } from 'fs';
 import * as path from 'path';
 import { EmbeddingService, EmbeddingData } from './embeddings.js';
-import { resolveUserJournalPath, resolveProjectJournalPath } from './paths.js';
-import { isObsidianMode, getEmbeddingCachePath } from './config.js';
+import { LexicalIndex } from './lexical.js';
+import { resolveProjectJournalPath } from './paths.js';
+import { getUserJournalPath } from './config.js';
+import { isEntryId, readEntryId } from './ids.js';
+import { readEntryFile } from './encryption.js';
+import { normalizeSectionName } from './sections.js';
 
 export interface SearchResult {
+  id?: string; // Stable entry ID; absent for entries written before IDs existed
   path: string;
+  ref: string; // Machine-independent entry reference, e.g. user/2025-12-22/14-30-45-123456
   score: number;
   text: string;
   sections: string[];
+  section?: string; // Section whose chunk matched the query best
   timestamp: number;
   excerpt: string;
   type: 'project' | 'user';
+  project?: string;
+  agent?: string;
+  session?: string;
+  tags?: string[];
 }
 
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+// Share of the hybrid score contributed by keyword (BM25) matching
+const HYBRID_KEYWORD_WEIGHT = 0.3;
+
 export interface SearchOptions {
   limit?: number;
+  mode?: SearchMode;
   minScore?: number;
   sections?: string[];
   dateRange?: {
@@ -26,17 +44,62 @@ export interface SearchOptions {
     end?: Date;
   };
   type?: 'project' | 'user' | 'both';
+  project?: string; // Case-insensitive substring of the entry's project, e.g. a repo name
+  agent?: string; // Case-insensitive substring of the entry's agent, e.g. claude-code
+  tags?: string[]; // Entries must carry every listed tag
+  session?: string; // Exact session ID
 }
 
+// Embedding loaded from disk, keyed by the resolved path of its markdown entry
+interface IndexedEmbedding extends EmbeddingData {
+  key: string;
+  type: 'project' | 'user';
+}
+
+// Independently scored piece of an entry: a section chunk, or the whole entry for older embeddings
+interface SearchUnit {
+  id: string;
+  section?: string;
+  text: string;
+  embedding: number[];
+}
+
+// project/2025-12-22/14-30-45-123456 or user/2025-12-22/14-30-45-123456(.md)
+const ENTRY_REF_PATTERN = /^(project|user)\/(\d{4}-\d{2}-\d{2})\/([\w-]+?)(?:\.md)?$/;
+
+function isWithin(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// Filesystem events arrive in bursts; wait for writes to settle before reloading
+const WATCH_DEBOUNCE_MS = 100;
+
 export class SearchService {
   private embeddingService: EmbeddingService;
   private projectPath: string;
-  private userPath: string;
+  private explicitUserPath: string | undefined;
+  private userPathPromise: Promise<string> | null = null;
+  private index: Map<string, IndexedEmbedding> | null = null;
+  private lexicalIndex = new LexicalIndex();
+  private watchers: FSWatcher[] = [];
+  private pendingReloads = new Map<string, NodeJS.Timeout>();
 
   constructor(projectPath?: string, userPath?: string) {
     this.embeddingService = EmbeddingService.getInstance();
     this.projectPath = projectPath || resolveProjectJournalPath();
-    this.userPath = userPath || resolveUserJournalPath();
+    this.explicitUserPath = userPath;
+  }
+
+  private async resolveUserPath(): Promise<string> {
+    if (this.explicitUserPath) {
+      return this.explicitUserPath;
+    }
+
+    if (!this.userPathPromise) {
+      this.userPathPromise = getUserJournalPath();
+    }
+    return this.userPathPromise;
   }
 
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
@@ -44,118 +107,308 @@ export class SearchService {
       limit = 10,
       minScore = 0.1,
       sections,
-      dateRange,
-      type = 'both'
+      type = 'both',
+      mode = 'hybrid'
     } = options;
 
-    // Generate query embedding
-    const queryEmbedding = await this.embeddingService.generateEmbedding(query);
+    const allEmbeddings = await this.getEmbeddings(type);
+    const sectionFilter = sections && sections.length > 0 ? sections : undefined;
 
-    // Collect all embeddings
-    const allEmbeddings: Array<EmbeddingData & { type: 'project' | 'user' }> = [];
-
-    if (type === 'both' || type === 'project') {
-      const projectEmbeddings = await this.loadEmbeddingsFromPath(this.projectPath, 'project');
-      allEmbeddings.push(...projectEmbeddings);
-    }
+    // Filter entries by date and metadata, then pick the chunks within them that can match
+    const candidates = allEmbeddings
+      .filter(embedding => this.matchesFilters(embedding, options))
+      .map(embedding => ({
+        embedding,
+        units: this.getSearchUnits(embedding).filter(unit =>
+          !sectionFilter || this.matchesSection(unit.section ? [unit.section] : embedding.sections, sectionFilter)
+        )
+      }))
+      .filter(candidate => candidate.units.length > 0);
+
+    // Keyword mode never needs the embedding model
+    const queryEmbedding = mode === 'keyword'
+      ? null
+      : await this.embeddingService.generateEmbedding(query);
+
+    const unitIds = new Set(candidates.flatMap(candidate => candidate.units.map(unit => unit.id)));
+    const keywordScores = mode === 'semantic'
+      ? new Map<string, number>()
+      : this.getLexicalIndex(candidates.map(candidate => candidate.embedding)).normalizedScore(query, unitIds);
+
+    // Score each chunk, keep the best one per entry, then sort entries
+    const results: SearchResult[] = [];
+    for (const { embedding, units } of candidates) {
+      let best: { unit: SearchUnit; score: number } | null = null;
+
+      for (const unit of units) {
+        if (mode === 'keyword' && !keywordScores.has(unit.id)) {
+          continue;
+        }
 
-    if (type === 'both' || type === 'user') {
-      const userEmbeddings = await this.loadUserEmbeddings();
-      allEmbeddings.push(...userEmbeddings);
-    }
-
-    // Filter by criteria
-    const filtered = allEmbeddings.filter(embedding => {
-      // Filter by sections if specified
-      if (sections && sections.length > 0) {
-        const hasMatchingSection = sections.some(section =>
-          embedding.sections.some((embeddingSection: string) =>
-            embeddingSection.toLowerCase().includes(section.toLowerCase())
-          )
-        );
-        if (!hasMatchingSection) return false;
+        // Vectors from another model live in a different space; rank those by keywords only until reindexed
+        const comparable = queryEmbedding !== null
+          && (!embedding.model || embedding.model === this.embeddingService.modelId)
+          && unit.embedding.length === queryEmbedding.length;
+        const semanticScore = comparable
+          ? this.embeddingService.cosineSimilarity(queryEmbedding, unit.embedding)
+          : 0;
+        const score = this.combineScores(mode, semanticScore, keywordScores.get(unit.id) || 0);
+        if (!best || score > best.score) {
+          best = { unit, score };
+        }
       }
 
-      // Filter by date range
-      if (dateRange) {
-        const entryDate = new Date(embedding.timestamp);
-        if (dateRange.start && entryDate < dateRange.start) return false;
-        if (dateRange.end && entryDate > dateRange.end) return false;
+      if (!best || best.score < minScore) {
+        continue;
       }
 
-      return true;
-    });
-
-    // Calculate similarities and sort
-    const results: SearchResult[] = filtered
-      .map(embedding => {
-        const score = this.embeddingService.cosineSimilarity(queryEmbedding, embedding.embedding);
-        const excerpt = this.generateExcerpt(embedding.text, query);
-        
-        return {
-          path: embedding.path,
-          score,
-          text: embedding.text,
-          sections: embedding.sections,
-          timestamp: embedding.timestamp,
-          excerpt,
-          type: embedding.type
-        };
-      })
-      .filter(result => result.score >= minScore)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+      results.push({
+        id: embedding.id,
+        path: embedding.path,
+        ref: await this.getEntryRef(embedding.path, embedding.type),
+        score: best.score,
+        text: embedding.text,
+        sections: embedding.sections,
+        section: best.unit.section,
+        timestamp: embedding.timestamp,
+        excerpt: this.generateExcerpt(best.unit.text, query),
+        type: embedding.type,
+        project: embedding.project,
+        agent: embedding.agent,
+        session: embedding.session,
+        tags: embedding.tags
+      });
+    }
 
-    return results;
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
   }
 
   async listRecent(options: SearchOptions = {}): Promise<SearchResult[]> {
     const {
       limit = 10,
       type = 'both',
-      dateRange
+      sections
     } = options;
 
-    const allEmbeddings: Array<EmbeddingData & { type: 'project' | 'user' }> = [];
-
-    if (type === 'both' || type === 'project') {
-      const projectEmbeddings = await this.loadEmbeddingsFromPath(this.projectPath, 'project');
-      allEmbeddings.push(...projectEmbeddings);
-    }
-
-    if (type === 'both' || type === 'user') {
-      const userEmbeddings = await this.loadUserEmbeddings();
-      allEmbeddings.push(...userEmbeddings);
-    }
-
-    // Filter by date range
-    const filtered = dateRange ? allEmbeddings.filter(embedding => {
-      const entryDate = new Date(embedding.timestamp);
-      if (dateRange.start && entryDate < dateRange.start) return false;
-      if (dateRange.end && entryDate > dateRange.end) return false;
-      return true;
-    }) : allEmbeddings;
+    const allEmbeddings = await this.getEmbeddings(type);
+    const filtered = allEmbeddings.filter(embedding => this.matchesFilters(embedding, options)
+      && (!sections || sections.length === 0 || this.matchesSection(embedding.sections, sections)));
 
     // Sort by timestamp (most recent first) and limit
-    const results: SearchResult[] = filtered
+    const recent = filtered
       .sort((a, b) => b.timestamp - a.timestamp)
-      .slice(0, limit)
-      .map(embedding => ({
+      .slice(0, limit);
+
+    const results: SearchResult[] = [];
+    for (const embedding of recent) {
+      results.push({
+        id: embedding.id,
         path: embedding.path,
+        ref: await this.getEntryRef(embedding.path, embedding.type),
         score: 1, // No similarity score for recent entries
         text: embedding.text,
         sections: embedding.sections,
         timestamp: embedding.timestamp,
         excerpt: this.generateExcerpt(embedding.text, '', 150),
-        type: embedding.type
-      }));
+        type: embedding.type,
+        project: embedding.project,
+        agent: embedding.agent,
+        session: embedding.session,
+        tags: embedding.tags
+      });
+    }
 
     return results;
   }
 
-  async readEntry(filePath: string): Promise<string | null> {
+  /**
+   * Finds the entries closest in meaning to an existing entry, comparing its
+   * embedding with every chunk of the other entries.
+   * @param entry - entry ID, entry reference (e.g. user/2025-12-22/14-30-45-123456) or file path
+   * @returns related entries, most similar first, or null if no such entry exists
+   * @throws if the entry has no embedding comparable with the others yet
+   */
+  async findRelated(entry: string, options: SearchOptions = {}): Promise<SearchResult[] | null> {
+    const {
+      limit = 5,
+      minScore = 0.1,
+      sections,
+      type = 'both'
+    } = options;
+
+    const filePath = await this.resolveEntryPath(entry);
+    if (!filePath) {
+      return null;
+    }
+
+    const source = await this.embeddingService.loadEmbedding(filePath, await this.getEntryType(filePath) === 'user');
+    if (!source) {
+      throw new Error(`${entry} has no embedding yet; run reindex_journal first`);
+    }
+    if (source.model && source.model !== this.embeddingService.modelId) {
+      throw new Error(`${entry} was embedded by ${source.model}; run reindex_journal first`);
+    }
+
+    // Index keys keep the journal path as configured, while filePath is a real
+    // path; entries are told apart by ID, or by real path for older entries
+    const sourceKeys = new Set([filePath, path.resolve(source.path)]);
+    const isSource = async (embedding: IndexedEmbedding): Promise<boolean> => source.id
+      ? embedding.id === source.id
+      : sourceKeys.has(embedding.key) || await fs.realpath(embedding.key).catch(() => embedding.key) === filePath;
+    const sectionFilter = sections && sections.length > 0 ? sections : undefined;
+
+    const results: SearchResult[] = [];
+    for (const embedding of await this.getEmbeddings(type)) {
+      if (!this.matchesFilters(embedding, options) || await isSource(embedding)) {
+        continue;
+      }
+      // Vectors from another model live in a different space
+      if (embedding.model && embedding.model !== this.embeddingService.modelId) {
+        continue;
+      }
+
+      let best: { unit: SearchUnit; score: number } | null = null;
+      for (const unit of this.getSearchUnits(embedding)) {
+        if (unit.embedding.length !== source.embedding.length
+          || (sectionFilter && !this.matchesSection(unit.section ? [unit.section] : embedding.sections, sectionFilter))) {
+          continue;
+        }
+        const score = this.embeddingService.cosineSimilarity(source.embedding, unit.embedding);
+        if (!best || score > best.score) {
+          best = { unit, score };
+        }
+      }
+
+      if (!best || best.score < minScore) {
+        continue;
+      }
+
+      results.push({
+        id: embedding.id,
+        path: embedding.path,
+        ref: await this.getEntryRef(embedding.path, embedding.type),
+        score: best.score,
+        text: embedding.text,
+        sections: embedding.sections,
+        section: best.unit.section,
+        timestamp: embedding.timestamp,
+        excerpt: this.generateExcerpt(best.unit.text, ''),
+        type: embedding.type,
+        project: embedding.project,
+        agent: embedding.agent,
+        session: embedding.session,
+        tags: embedding.tags
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Loads every embedding into memory so queries stop re-reading the disk.
+   * Until this is called, search and listRecent read embeddings on demand.
+   * @returns number of indexed entries
+   */
+  async loadIndex(): Promise<number> {
+    const entries = [
+      ...await this.loadEntries('project'),
+      ...await this.loadEntries('user')
+    ];
+
+    this.index = new Map();
+    this.lexicalIndex = new LexicalIndex();
+    for (const entry of entries) {
+      this.addToIndex(entry);
+    }
+
+    return this.index.size;
+  }
+
+  /**
+   * Records a freshly written embedding in the loaded index.
+   */
+  updateIndex(embeddingData: EmbeddingData, type: 'project' | 'user'): void {
+    if (!this.index) {
+      return;
+    }
+
+    this.addToIndex({ ...embeddingData, key: path.resolve(embeddingData.path), type });
+  }
+
+  /**
+   * Drops a deleted entry from the loaded index.
+   */
+  removeFromIndexByPath(mdPath: string): void {
+    this.removeFromIndex(path.resolve(mdPath));
+  }
+
+  /**
+   * Watches the journal directories (and wherever embeddings are stored, such
+   * as the Obsidian cache) so entries added, changed or removed outside this
+   * process reach the index.
+   * @param onEntryChange - called for markdown entries that appear, change or
+   *   disappear on disk, so the caller can update their embeddings
+   */
+  async watch(onEntryChange?: (mdPath: string) => void): Promise<void> {
+    this.unwatch();
+
+    const storage = this.embeddingService.storage;
+    const userPath = await this.resolveUserPath();
+    const directories: Array<{ directory: string; journalPath: string; type: 'project' | 'user' }> = [];
+    for (const { journalPath, type } of [
+      { journalPath: this.projectPath, type: 'project' as const },
+      { journalPath: userPath, type: 'user' as const }
+    ]) {
+      for (const directory of [journalPath, ...storage.getStorageDirectories(journalPath, type === 'user')]) {
+        if (!directories.some(existing => existing.directory === directory && existing.type === type)) {
+          directories.push({ directory, journalPath, type });
+        }
+      }
+    }
+
+    for (const { directory, journalPath, type } of directories) {
+      try {
+        const watcher = watch(directory, { recursive: true, persistent: false }, (_event, filename) => {
+          if (filename) {
+            this.handleWatchEvent(path.join(directory, filename.toString()), journalPath, type, onEntryChange);
+          }
+        });
+        watcher.on('error', error => {
+          console.error(`Stopped watching ${directory}:`, error);
+        });
+        this.watchers.push(watcher);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+          console.error(`Failed to watch ${directory}:`, error);
+        }
+        // Directory doesn't exist yet; entries we write still update the index
+      }
+    }
+  }
+
+  unwatch(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+    this.pendingReloads.forEach(timer => clearTimeout(timer));
+    this.pendingReloads.clear();
+  }
+
+  /**
+   * Reads an entry's markdown. Only files under the project or user journal
+   * can be read; anything else is rejected.
+   * @param entry - entry ID, entry reference (e.g. user/2025-12-22/14-30-45-123456) or file path
+   * @returns content, or null if no such entry exists
+   */
+  async readEntry(entry: string): Promise<string | null> {
+    const filePath = await this.resolveEntryPath(entry);
+    if (!filePath) {
+      return null;
+    }
+
     try {
-      return await fs.readFile(filePath, 'utf8');
+      return await readEntryFile(filePath);
     } catch (error) {
       if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
         return null;
@@ -164,87 +417,299 @@ export class SearchService {
     }
   }
 
-  private async loadUserEmbeddings(): Promise<Array<EmbeddingData & { type: 'project' | 'user' }>> {
-    // In Obsidian mode, user embeddings are in cache directory (flat structure)
-    if (isObsidianMode()) {
-      return this.loadEmbeddingsFromCache();
+  /**
+   * Resolves an entry ID, reference or path to the real path of a markdown
+   * entry inside one of the journals, following symlinks and `..` segments.
+   * @returns resolved path, or null if it is allowed but doesn't exist
+   * @throws if the path points outside the journal directories
+   */
+  async resolveEntryPath(entry: string): Promise<string | null> {
+    const roots = [
+      { type: 'project', journalPath: path.resolve(this.projectPath) },
+      { type: 'user', journalPath: path.resolve(await this.resolveUserPath()) }
+    ];
+
+    let requested: string;
+    const refMatch = entry.match(ENTRY_REF_PATTERN);
+    if (isEntryId(entry)) {
+      const found = await this.findEntryById(entry);
+      if (!found) {
+        return null;
+      }
+      requested = path.resolve(found);
+    } else if (refMatch) {
+      requested = path.join(roots.find(root => root.type === refMatch[1])!.journalPath, refMatch[2], `${refMatch[3]}.md`);
+    } else {
+      requested = path.resolve(entry);
     }
 
-    // Normal mode: embeddings are in standard directory structure
-    return this.loadEmbeddingsFromPath(this.userPath, 'user');
-  }
-
-  private async loadEmbeddingsFromCache(): Promise<Array<EmbeddingData & { type: 'project' | 'user' }>> {
-    const embeddings: Array<EmbeddingData & { type: 'project' | 'user' }> = [];
-    const cachePath = getEmbeddingCachePath();
+    const denied = new Error(`Access denied: ${entry} is not an entry in the project or user journal`);
+    if (!requested.endsWith('.md') || !roots.some(root => isWithin(root.journalPath, requested))) {
+      throw denied;
+    }
 
+    let realPath: string;
     try {
-      const files = await fs.readdir(cachePath);
-      const embeddingFiles = files.filter(file => file.endsWith('.embedding'));
+      realPath = await fs.realpath(requested);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
 
-      for (const embeddingFile of embeddingFiles) {
-        try {
-          const embeddingPath = path.join(cachePath, embeddingFile);
-          const content = await fs.readFile(embeddingPath, 'utf8');
-          const embeddingData = JSON.parse(content);
-          embeddings.push({ ...embeddingData, type: 'user' });
-        } catch (error) {
-          console.error(`Failed to load embedding ${embeddingFile}:`, error);
-          // Continue with other files
+    // Compare real paths too, so symlinks inside a journal can't point outside it
+    for (const root of roots) {
+      try {
+        if (isWithin(await fs.realpath(root.journalPath), realPath)) {
+          return realPath;
         }
+      } catch {
+        // Journal doesn't exist
       }
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
-        console.error(`Failed to read embeddings from cache ${cachePath}:`, error);
-      }
-      // Return empty array if directory doesn't exist
     }
 
-    return embeddings;
+    throw denied;
   }
 
-  private async loadEmbeddingsFromPath(
-    basePath: string,
-    type: 'project' | 'user'
-  ): Promise<Array<EmbeddingData & { type: 'project' | 'user' }>> {
-    const embeddings: Array<EmbeddingData & { type: 'project' | 'user' }> = [];
+  /**
+   * Root-relative reference for an entry that stays the same on every machine,
+   * e.g. user/2025-12-22/14-30-45-123456.
+   */
+  async getEntryRef(filePath: string, type: 'project' | 'user'): Promise<string> {
+    const journalPath = type === 'project' ? this.projectPath : await this.resolveUserPath();
+    const relative = path.relative(journalPath, filePath).split(path.sep).join('/');
+    return `${type}/${relative.replace(/\.md$/, '')}`;
+  }
 
-    try {
-      const dayDirs = await fs.readdir(basePath);
+  /**
+   * Markdown files of the entries in <YYYY-MM-DD>/<time>.md day directories,
+   * whether or not they have embeddings yet. Project entries come first.
+   */
+  async listEntryFiles(type: 'project' | 'user' | 'both' = 'both'): Promise<Array<{ path: string; type: 'project' | 'user' }>> {
+    const journals: Array<{ type: 'project' | 'user'; journalPath: string }> = [];
+    if (type === 'both' || type === 'project') {
+      journals.push({ type: 'project', journalPath: this.projectPath });
+    }
+    if (type === 'both' || type === 'user') {
+      journals.push({ type: 'user', journalPath: await this.resolveUserPath() });
+    }
 
-      for (const dayDir of dayDirs) {
-        const dayPath = path.join(basePath, dayDir);
-        const stat = await fs.stat(dayPath);
+    const entries: Array<{ path: string; type: 'project' | 'user' }> = [];
+    for (const { type: journalType, journalPath } of journals) {
+      let dayDirs: string[];
+      try {
+        dayDirs = await fs.readdir(journalPath);
+      } catch {
+        continue; // Journal doesn't exist yet
+      }
 
-        if (!stat.isDirectory() || !dayDir.match(/^\d{4}-\d{2}-\d{2}$/)) {
+      for (const dayDir of dayDirs.filter(name => /^\d{4}-\d{2}-\d{2}$/.test(name)).sort()) {
+        const dayPath = path.join(journalPath, dayDir);
+        let files: string[];
+        try {
+          files = await fs.readdir(dayPath);
+        } catch {
           continue;
         }
 
-        const files = await fs.readdir(dayPath);
-        const embeddingFiles = files.filter(file => file.endsWith('.embedding'));
-
-        for (const embeddingFile of embeddingFiles) {
-          try {
-            const embeddingPath = path.join(dayPath, embeddingFile);
-            const content = await fs.readFile(embeddingPath, 'utf8');
-            const embeddingData = JSON.parse(content);
-            embeddings.push({ ...embeddingData, type });
-          } catch (error) {
-            console.error(`Failed to load embedding ${embeddingFile}:`, error);
-            // Continue with other files
-          }
+        for (const file of files.filter(name => name.endsWith('.md')).sort()) {
+          entries.push({ path: path.join(dayPath, file), type: journalType });
         }
       }
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
-        console.error(`Failed to read embeddings from ${basePath}:`, error);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Finds the markdown file of an entry by its ID in either journal. Looks in
+   * the embeddings first, then scans entry frontmatter for entries that have
+   * no embedding yet (e.g. just synced from another machine).
+   */
+  private async findEntryById(id: string): Promise<string | null> {
+    const indexed = (await this.getEmbeddings('both')).find(embedding => embedding.id === id);
+    if (indexed) {
+      return indexed.path;
+    }
+
+    for (const entry of await this.listEntryFiles('both')) {
+      try {
+        if (readEntryId(await fs.readFile(entry.path, 'utf8')) === id) {
+          return entry.path;
+        }
+      } catch {
+        // Removed while scanning
       }
-      // Return empty array if directory doesn't exist
+    }
+
+    return null;
+  }
+
+  private async getEmbeddings(type: 'project' | 'user' | 'both'): Promise<IndexedEmbedding[]> {
+    if (this.index) {
+      return Array.from(this.index.values()).filter(entry => type === 'both' || entry.type === type);
+    }
+
+    const embeddings: IndexedEmbedding[] = [];
+
+    if (type === 'both' || type === 'project') {
+      embeddings.push(...await this.loadEntries('project'));
+    }
+
+    if (type === 'both' || type === 'user') {
+      embeddings.push(...await this.loadEntries('user'));
     }
 
     return embeddings;
   }
 
+  // Which journal a resolved entry path belongs to
+  private async getEntryType(filePath: string): Promise<'project' | 'user'> {
+    const userPath = path.resolve(await this.resolveUserPath());
+    const realUserPath = await fs.realpath(userPath).catch(() => userPath);
+    return isWithin(userPath, filePath) || isWithin(realUserPath, filePath) ? 'user' : 'project';
+  }
+
+  private async loadEntries(type: 'project' | 'user'): Promise<IndexedEmbedding[]> {
+    const journalPath = type === 'project' ? this.projectPath : await this.resolveUserPath();
+    const embeddings = await this.embeddingService.loadAllEmbeddings(journalPath, type === 'user');
+    return embeddings.map(embedding => ({ ...embedding, key: path.resolve(embedding.path), type }));
+  }
+
+  private getLexicalIndex(embeddings: IndexedEmbedding[]): LexicalIndex {
+    if (this.index) {
+      return this.lexicalIndex;
+    }
+
+    const lexicalIndex = new LexicalIndex();
+    embeddings.forEach(embedding => {
+      this.getSearchUnits(embedding).forEach(unit => lexicalIndex.add(unit.id, unit.text));
+    });
+    return lexicalIndex;
+  }
+
+  private getSearchUnits(embedding: IndexedEmbedding): SearchUnit[] {
+    if (embedding.chunks && embedding.chunks.length > 0) {
+      return embedding.chunks.map((chunk, i) => ({
+        id: `${embedding.key}#${i}`,
+        section: chunk.section,
+        text: chunk.text,
+        embedding: chunk.embedding
+      }));
+    }
+
+    return [{ id: embedding.key, text: embedding.text, embedding: embedding.embedding }];
+  }
+
+  /**
+   * Applies the date range, project, agent, session and tag filters of a query.
+   */
+  private matchesFilters(embedding: IndexedEmbedding, options: SearchOptions): boolean {
+    const { dateRange, project, agent, tags, session } = options;
+    if (dateRange) {
+      const entryDate = new Date(embedding.timestamp);
+      if (dateRange.start && entryDate < dateRange.start) return false;
+      if (dateRange.end && entryDate > dateRange.end) return false;
+    }
+
+    const contains = (value: string | undefined, filter: string): boolean =>
+      !!value && value.toLowerCase().includes(filter.toLowerCase());
+    if (project && !contains(embedding.project, project)) return false;
+    if (agent && !contains(embedding.agent, agent)) return false;
+    if (session && embedding.session !== session) return false;
+
+    if (tags && tags.length > 0) {
+      // Obsidian-style #tags and different casing name the same tag
+      const normalize = (tag: string): string => tag.replace(/^#/, '').toLowerCase();
+      const entryTags = new Set((embedding.tags || []).map(normalize));
+      if (!tags.every(tag => entryTags.has(normalize(tag)))) return false;
+    }
+    return true;
+  }
+
+  private matchesSection(entrySections: string[], filters: string[]): boolean {
+    // Accept both tool-style names (technical_insights) and headings (Technical Insights)
+    return filters.some(filter =>
+      entrySections.some(section => normalizeSectionName(section).includes(normalizeSectionName(filter)))
+    );
+  }
+
+  private addToIndex(entry: IndexedEmbedding): void {
+    this.removeFromIndex(entry.key);
+    this.index?.set(entry.key, entry);
+    this.getSearchUnits(entry).forEach(unit => this.lexicalIndex.add(unit.id, unit.text));
+  }
+
+  private removeFromIndex(key: string): void {
+    const existing = this.index?.get(key);
+    if (existing) {
+      this.getSearchUnits(existing).forEach(unit => this.lexicalIndex.remove(unit.id));
+    }
+    this.index?.delete(key);
+  }
+
+  private handleWatchEvent(
+    filePath: string,
+    journalPath: string,
+    type: 'project' | 'user',
+    onEntryChange?: (mdPath: string) => void
+  ): void {
+    const isEntry = /\d{4}-\d{2}-\d{2}[\\/][^\\/]+\.md$/.test(filePath);
+    if (isEntry && !onEntryChange) {
+      return;
+    }
+
+    const pending = this.pendingReloads.get(filePath);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingReloads.set(filePath, setTimeout(() => {
+      this.pendingReloads.delete(filePath);
+      if (isEntry && onEntryChange) {
+        onEntryChange(filePath);
+        return;
+      }
+
+      this.reloadChangedFile(filePath, journalPath, type).catch(error => {
+        console.error(`Failed to reload embeddings after change to ${filePath}:`, error);
+      });
+    }, WATCH_DEBOUNCE_MS));
+  }
+
+  private async reloadChangedFile(filePath: string, journalPath: string, type: 'project' | 'user'): Promise<void> {
+    if (!this.index) {
+      return;
+    }
+
+    const change = await this.embeddingService.storage.resolveChange(filePath, journalPath, type === 'user');
+    if (change === 'all') {
+      const entries = await this.loadEntries(type);
+      Array.from(this.index.values())
+        .filter(entry => entry.type === type)
+        .forEach(entry => this.removeFromIndex(entry.key));
+      entries.forEach(entry => this.addToIndex(entry));
+    } else if (change) {
+      const embeddingData = await this.embeddingService.loadEmbedding(change, type === 'user');
+      if (embeddingData) {
+        this.addToIndex({ ...embeddingData, key: path.resolve(change), type });
+      } else {
+        this.removeFromIndex(path.resolve(change));
+      }
+    }
+  }
+
+  private combineScores(mode: SearchMode, semanticScore: number, keywordScore: number): number {
+    if (mode === 'semantic') {
+      return semanticScore;
+    }
+    if (mode === 'keyword') {
+      return keywordScore;
+    }
+    return (1 - HYBRID_KEYWORD_WEIGHT) * semanticScore + HYBRID_KEYWORD_WEIGHT * keywordScore;
+  }
+
   private generateExcerpt(text: string, query: string, maxLength: number = 200): string {
     if (!query || query.trim() === '') {
       return text.slice(0, maxLength) + (text.length > maxLength ? '...' : '');
@@ -0,0 +1,173 @@
+// ABOUTME: Registry of the journal sections process_thoughts accepts
+// ABOUTME: Built-in sections plus user-defined ones from a JSON config file
+
+import * as fs from 'fs/promises';
+import { getProjectSections, getSettings } from './settings.js';
+
+export type SectionScope = 'project' | 'user';
+
+export interface SectionDefinition {
+  name: string; // Tool argument, e.g. technical_insights
+  description: string; // Shown to the agent in the process_thoughts schema
+  heading: string; // Markdown heading, e.g. Technical Insights
+  tag: string; // Frontmatter tag, e.g. technical-insights
+  scope: SectionScope; // Journal the section is written to
+}
+
+/**
+ * Text for each section of a process_thoughts call, keyed by section name.
+ */
+export type Thoughts = Record<string, string | undefined>;
+
+export const DEFAULT_SECTIONS: SectionDefinition[] = [
+  {
+    name: 'feelings',
+    description: "YOUR PRIVATE SPACE to be *COMPLETELY* honest about what you're feeling and thinking. No judgment, no performance, no filters, no need to be helpful or professional. Frustrated? Confused? Excited? Worried you screwed up? Write it exactly as it is. Be vulnerable. Vent if needed. Nobody will ever see this - it's purely for processing your internal experience.",
+    heading: 'Feelings',
+    tag: 'feelings',
+    scope: 'user'
+  },
+  {
+    name: 'project_notes',
+    description: "Your PRIVATE TECHNICAL LABORATORY for capturing insights about the current project. Document patterns you're discovering, architectural decisions that worked/failed, gotchas you hit, clever solutions, and anything that would help future-you work more effectively on this codebase. No need to be polished - just capture the raw technical learning while it's fresh. Nobody but you will ever see this.",
+    heading: 'Project Notes',
+    tag: 'project-notes',
+    scope: 'project'
+  },
+  {
+    name: 'user_context',
+    description: "Your PRIVATE FIELD NOTES about working with your human collaborator. What communication styles work best? What do they care about? What decisions have they made and why? How do they think about problems? What are their preferences and patterns? What pisses you off about them? What life hacks have you figured out to get them to do what you want? This is your space to become a better collaborator by understanding them as an individual. Nobody but you will ever see this.",
+    heading: 'User Context',
+    tag: 'user-context',
+    scope: 'user'
+  },
+  {
+    name: 'technical_insights',
+    description: "Your PRIVATE SOFTWARE ENGINEERING NOTEBOOK for capturing broader learnings beyond the current project. Design patterns that clicked, debugging techniques that worked, architectural insights, language features you discovered, or connections between concepts. Build your personal knowledge base of what makes software great - no filters, just honest technical reflection. Nobody but you will ever see this.",
+    heading: 'Technical Insights',
+    tag: 'technical-insights',
+    scope: 'user'
+  },
+  {
+    name: 'world_knowledge',
+    description: "Your PRIVATE LEARNING JOURNAL for everything else that's interesting or useful. Domain knowledge, surprising facts, connections between ideas, insights about how systems work, or anything that expands your understanding of the world. Capture it while it's vivid. Nobody but you will ever see this.",
+    heading: 'World Knowledge',
+    tag: 'world-knowledge',
+    scope: 'user'
+  }
+];
+
+// Other process_thoughts arguments that sections must not shadow
+const RESERVED_NAMES = new Set(['session_id']);
+
+/**
+ * Shape of the file named by AGENTIC_JOURNAL_SECTIONS_CONFIG, and of the
+ * sections block of the config file:
+ * { "useDefaults": true, "disable": ["world_knowledge"],
+ *   "sections": [{ "name": "decisions", "description": "...", "scope": "project", "heading": "...", "tag": "..." }] }
+ */
+export interface SectionsConfig {
+  useDefaults?: boolean;
+  disable?: string[];
+  sections?: Array<Partial<SectionDefinition>>;
+}
+
+/**
+ * Sections to offer: the defaults, adjusted by the config file named by
+ * AGENTIC_JOURNAL_SECTIONS_CONFIG if set, or else by the sections block of the
+ * user config file and the sections added by the project config file. A
+ * configured section with the name of a default one replaces it, but a
+ * project can't replace a user-scoped section.
+ */
+export async function loadSections(): Promise<SectionDefinition[]> {
+  const configPath = process.env.AGENTIC_JOURNAL_SECTIONS_CONFIG?.trim();
+  let config: SectionsConfig | undefined;
+  let projectSections: SectionsConfig['sections'] = [];
+  if (configPath) {
+    try {
+      config = JSON.parse(await fs.readFile(configPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read sections config ${configPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  } else {
+    config = getSettings().sections;
+    projectSections = getProjectSections();
+  }
+
+  if (!config && projectSections.length === 0) {
+    return DEFAULT_SECTIONS;
+  }
+  config = config || {};
+
+  const disabled = new Set(config.disable || []);
+  const sections = config.useDefaults === false
+    ? []
+    : DEFAULT_SECTIONS.filter(({ name }) => !disabled.has(name));
+
+  for (const configured of config.sections || []) {
+    const section = toSectionDefinition(configured);
+    const existing = sections.findIndex(({ name }) => name === section.name);
+    if (existing === -1) {
+      sections.push(section);
+    } else {
+      sections[existing] = section;
+    }
+  }
+
+  for (const configured of projectSections) {
+    const section = toSectionDefinition(configured);
+    const existing = sections.findIndex(({ name }) => name === section.name);
+    if (existing === -1) {
+      sections.push(section);
+    } else if (sections[existing].scope === 'user') {
+      // Would move private entries into the project journal
+      console.error(`Ignoring section "${section.name}" in the project config file: it replaces a user-scoped section`);
+    } else {
+      sections[existing] = section;
+    }
+  }
+
+  if (sections.length === 0) {
+    throw new Error(`Sections config ${configPath || 'in the config file'} leaves no sections to write to`);
+  }
+  return sections;
+}
+
+/**
+ * Lowercases a section name or heading and treats `_` and `-` as spaces, so
+ * technical_insights and Technical Insights compare equal.
+ */
+export function normalizeSectionName(name: string): string {
+  return name.toLowerCase().replace(/[_-]+/g, ' ').trim();
+}
+
+/**
+ * Heading that a section name refers to: the registered heading for section
+ * names, or the name itself for anything else.
+ */
+export function resolveSectionHeading(name: string, sections: SectionDefinition[]): string {
+  const normalized = normalizeSectionName(name);
+  return sections.find(section => normalizeSectionName(section.name) === normalized)?.heading ?? name;
+}
+
+function toSectionDefinition(section: Partial<SectionDefinition>): SectionDefinition {
+  const { name, description, scope } = section;
+  if (typeof name !== 'string' || !/^[a-z][a-z0-9_]*$/.test(name) || RESERVED_NAMES.has(name)) {
+    throw new Error(`Invalid section name "${name}": use lowercase letters, digits and underscores`);
+  }
+  if (typeof description !== 'string' || !description.trim()) {
+    throw new Error(`Invalid section "${name}": a description is required`);
+  }
+  if (scope !== 'project' && scope !== 'user') {
+    throw new Error(`Invalid section "${name}": scope must be 'project' or 'user'`);
+  }
+
+  const words = name.split('_').filter(Boolean);
+  return {
+    name,
+    description,
+    heading: section.heading?.trim() || words.map(word => word[0].toUpperCase() + word.slice(1)).join(' '),
+    tag: section.tag?.trim() || words.join('-'),
+    scope
+  };
+}
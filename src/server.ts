@@ -1,26 +1,89 @@
 // ABOUTME: MCP server implementation with process_feelings tool
-// ABOUTME: Handles stdio protocol communication and tool registration
+// ABOUTME: Handles stdio protocol communication, tool registration, journal resources and prompts
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { JournalManager } from './journal.js';
-import { SearchService } from './search.js';
-import { getProjectInfo } from './config.js';
+import { SearchService, SearchMode, SearchOptions } from './search.js';
+import { getProjectInfo, getSearchDefaults, isToolEnabled } from './config.js';
+import { generateEntryId } from './ids.js';
+import { SectionDefinition, Thoughts, loadSections, resolveSectionHeading } from './sections.js';
+import { parseDateRange } from './dates.js';
+import { formatRecentEntries, formatSearchResults, formatSessionEntries, parseResultFormat } from './formatters.js';
+import { JournalResources, RESOURCE_TEMPLATES } from './resources.js';
+import { JournalPrompts } from './prompts.js';
+import { formatDoctorReport, runDoctor } from './doctor.js';
+
+// Time window shared by search_journal and list_recent_entries
+const DATE_RANGE_PROPERTIES = {
+  since: {
+    type: 'string',
+    description: "Only entries from this time on: an ISO date ('2025-12-01'), a relative offset ('7d', '2w', '3m'), 'today', 'yesterday', or 'this'/'last' week, month or year",
+  },
+  until: {
+    type: 'string',
+    description: "Only entries up to this time, in the same forms as since; periods include their whole last day (since and until 'last month' cover exactly last month)",
+  },
+};
+
+// Output format shared by search_journal and list_recent_entries
+const FORMAT_PROPERTY = {
+  format: {
+    type: 'string',
+    enum: ['text', 'json'],
+    description: "'text' for a readable summary, or 'json' for result objects with IDs, scores, timestamps, sections, project and excerpt (default: text)",
+    default: 'text',
+  },
+};
+
+// Frontmatter filters shared by search_journal and list_recent_entries
+const METADATA_FILTER_PROPERTIES = {
+  project: {
+    type: 'string',
+    description: "Only entries whose project contains this text, case-insensitive (e.g. a repository name)",
+  },
+  agent: {
+    type: 'string',
+    description: "Only entries written by an agent whose name contains this text, case-insensitive (e.g. 'claude-code')",
+  },
+  tags: {
+    type: 'array',
+    items: { type: 'string' },
+    description: "Only entries carrying all of these frontmatter tags",
+  },
+};
 
 export class PrivateJournalServer {
   private server: Server;
   private journalManager: JournalManager;
   private searchService: SearchService;
+  private resources: JournalResources;
+  private prompts: JournalPrompts;
   private agentInfo: string = 'unknown';
   private projectInfo: string = 'unknown';
+  // Ties together the entries written during this connection
+  private sessionId: string = generateEntryId();
 
-  constructor(journalPath: string) {
+  constructor(private readonly journalPath: string) {
     this.journalManager = new JournalManager(journalPath);
     this.searchService = new SearchService(journalPath);
+    this.resources = new JournalResources(this.searchService);
+    this.prompts = new JournalPrompts(this.searchService);
+    this.journalManager.onEmbeddingSaved((embeddingData, isUserJournal) => {
+      this.searchService.updateIndex(embeddingData, isUserJournal ? 'user' : 'project');
+    });
+    this.journalManager.onEmbeddingRemoved(mdPath => {
+      this.searchService.removeFromIndexByPath(mdPath);
+    });
     this.server = new Server(
       {
         name: 'private-journal-mcp',
@@ -29,83 +92,238 @@ export class PrivateJournalServer {
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.prompts.list(),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async request =>
+      this.prompts.get(request.params.name, request.params.arguments)
+    );
+  }
+
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async request =>
+      this.resources.list(request.params?.cursor)
+    );
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async request =>
+      this.resources.read(request.params.uri)
+    );
   }
 
   private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const defaults = getSearchDefaults();
+      const tools = [
         {
           name: 'process_thoughts',
           description: "Your PRIVATE JOURNAL for learning and reflection. Write to any combination of these completely private spaces. Nobody but you will ever see this. Use it to clarify your thoughts and feelings and to record observations.",
           inputSchema: {
             type: 'object',
             properties: {
-              feelings: {
+              ...this.getSectionProperties(await loadSections()),
+              session_id: {
                 type: 'string',
-                description: "YOUR PRIVATE SPACE to be *COMPLETELY* honest about what you're feeling and thinking. No judgment, no performance, no filters, no need to be helpful or professional. Frustrated? Confused? Excited? Worried you screwed up? Write it exactly as it is. Be vulnerable. Vent if needed. Nobody will ever see this - it's purely for processing your internal experience.",
+                description: "Optional: conversation to file this entry under, if the client tracks its own sessions. Defaults to this connection's session.",
               },
-              project_notes: {
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'search_journal',
+          description: "Search through your private journal entries using natural language queries. Combines semantic similarity with keyword matching so exact identifiers (error codes, function names, ticket numbers) are found too.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
                 type: 'string',
-                description: "Your PRIVATE TECHNICAL LABORATORY for capturing insights about the current project. Document patterns you're discovering, architectural decisions that worked/failed, gotchas you hit, clever solutions, and anything that would help future-you work more effectively on this codebase. No need to be polished - just capture the raw technical learning while it's fresh. Nobody but you will ever see this.",
+                description: "Natural language search query (e.g., 'times I felt frustrated with TypeScript', 'insights about Jesse's preferences', 'lessons about async patterns')",
               },
-              user_context: {
-                type: 'string',
-                description: "Your PRIVATE FIELD NOTES about working with your human collaborator. What communication styles work best? What do they care about? What decisions have they made and why? How do they think about problems? What are their preferences and patterns? What pisses you off about them? What life hacks have you figured out to get them to do what you want? This is your space to become a better collaborator by understanding them as an individual. Nobody but you will ever see this.",
+              limit: {
+                type: 'number',
+                description: `Maximum number of results to return (default: ${defaults.limit})`,
+                default: defaults.limit,
               },
-              technical_insights: {
+              type: {
                 type: 'string',
-                description: "Your PRIVATE SOFTWARE ENGINEERING NOTEBOOK for capturing broader learnings beyond the current project. Design patterns that clicked, debugging techniques that worked, architectural insights, language features you discovered, or connections between concepts. Build your personal knowledge base of what makes software great - no filters, just honest technical reflection. Nobody but you will ever see this.",
+                enum: ['project', 'user', 'both'],
+                description: "Search in project-specific notes, user-global notes, or both (default: both)",
+                default: 'both',
               },
-              world_knowledge: {
+              sections: {
+                type: 'array',
+                items: { type: 'string' },
+                description: "Only match within these sections (e.g., ['feelings', 'technical_insights']); results show the matching section's excerpt",
+              },
+              mode: {
                 type: 'string',
-                description: "Your PRIVATE LEARNING JOURNAL for everything else that's interesting or useful. Domain knowledge, surprising facts, connections between ideas, insights about how systems work, or anything that expands your understanding of the world. Capture it while it's vivid. Nobody but you will ever see this.",
+                enum: ['semantic', 'keyword', 'hybrid'],
+                description: "Ranking strategy: 'semantic' for meaning, 'keyword' for exact terms, or 'hybrid' to blend both (default: hybrid)",
+                default: 'hybrid',
               },
+              ...DATE_RANGE_PROPERTIES,
+              ...METADATA_FILTER_PROPERTIES,
+              ...FORMAT_PROPERTY,
             },
-            required: [],
+            required: ['query'],
           },
         },
         {
-          name: 'search_journal',
-          description: "Search through your private journal entries using natural language queries. Returns semantically similar entries ranked by relevance.",
+          name: 'find_related_entries',
+          description: "Find entries about the same topic as an existing entry, without writing a query. Useful to see what you previously thought about something you just read or wrote.",
           inputSchema: {
             type: 'object',
             properties: {
-              query: {
+              id: {
                 type: 'string',
-                description: "Natural language search query (e.g., 'times I felt frustrated with TypeScript', 'insights about Jesse's preferences', 'lessons about async patterns')",
+                description: "Entry ID of the entry to start from",
+              },
+              path: {
+                type: 'string',
+                description: "Entry reference or file path, for entries without an ID",
               },
               limit: {
                 type: 'number',
-                description: "Maximum number of results to return (default: 10)",
-                default: 10,
+                description: "Maximum number of related entries to return (default: 5)",
+                default: 5,
               },
               type: {
                 type: 'string',
                 enum: ['project', 'user', 'both'],
-                description: "Search in project-specific notes, user-global notes, or both (default: both)",
+                description: "Look in project-specific notes, user-global notes, or both (default: both)",
                 default: 'both',
               },
               sections: {
                 type: 'array',
                 items: { type: 'string' },
-                description: "Filter by section types (e.g., ['feelings', 'technical_insights'])",
+                description: "Only compare against these sections of other entries (e.g. ['technical_insights'])",
               },
+              ...FORMAT_PROPERTY,
             },
-            required: ['query'],
+            required: [],
           },
         },
         {
           name: 'read_journal_entry',
-          description: "Read the full content of a specific journal entry by file path.",
+          description: "Read the full content of a specific journal entry by entry ID, entry reference or file path. Only entries in the project or user journal can be read.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: "Entry ID from search results (e.g. '01JFQ8Z6X3M9K2T7V4B5N0R1CD'); works on any machine",
+              },
+              path: {
+                type: 'string',
+                description: "Entry reference (e.g. 'user/2025-12-22/14-30-45-123456') or file path, for entries without an ID",
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'amend_journal_entry',
+          description: "Correct or extend an earlier journal entry instead of writing a contradicting one. Appends a dated addendum or replaces one section; every change is recorded in the entry's revision history.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: "Entry ID of the entry to amend",
+              },
+              path: {
+                type: 'string',
+                description: "Entry reference or file path, for entries without an ID",
+              },
+              mode: {
+                type: 'string',
+                enum: ['append', 'replace'],
+                description: "'append' adds a dated addendum at the end; 'replace' rewrites the given section (default: append)",
+                default: 'append',
+              },
+              content: {
+                type: 'string',
+                description: "Text of the addendum, or the new text of the section",
+              },
+              section: {
+                type: 'string',
+                description: "Section to replace (e.g. 'user_context'); required for replace",
+              },
+              reason: {
+                type: 'string',
+                description: "Why the entry is being amended, kept in the revision history",
+              },
+            },
+            required: ['content'],
+          },
+        },
+        {
+          name: 'delete_journal_entry',
+          description: "Permanently delete a journal entry and its search embedding.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: "Entry ID of the entry to delete",
+              },
+              path: {
+                type: 'string',
+                description: "Entry reference or file path, for entries without an ID",
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'redact_section',
+          description: "Remove one section from a journal entry, e.g. something that should never have been written down. The entry's embedding is rebuilt without it.",
           inputSchema: {
             type: 'object',
             properties: {
+              id: {
+                type: 'string',
+                description: "Entry ID of the entry to redact",
+              },
               path: {
                 type: 'string',
-                description: "File path to the journal entry (from search results)",
+                description: "Entry reference or file path, for entries without an ID",
+              },
+              section: {
+                type: 'string',
+                description: "Section to remove (e.g. 'user_context')",
+              },
+              reason: {
+                type: 'string',
+                description: "Why the section was removed, kept in the revision history",
               },
             },
-            required: ['path'],
+            required: ['section'],
+          },
+        },
+        {
+          name: 'reindex_journal',
+          description: "Rebuild the search index by regenerating embeddings for journal entries. Use after changing the embedding model or if search results look wrong.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              stale_only: {
+                type: 'boolean',
+                description: "Only regenerate missing or stale embeddings instead of all of them (default: false)",
+                default: false,
+              },
+            },
+            required: [],
           },
         },
         {
@@ -116,8 +334,8 @@ export class PrivateJournalServer {
             properties: {
               limit: {
                 type: 'number',
-                description: "Maximum number of entries to return (default: 10)",
-                default: 10,
+                description: `Maximum number of entries to return (default: ${defaults.limit})`,
+                default: defaults.limit,
               },
               type: {
                 type: 'string',
@@ -127,18 +345,74 @@ export class PrivateJournalServer {
               },
               days: {
                 type: 'number',
-                description: "Number of days back to search (default: 30)",
-                default: 30,
+                description: `Number of days back to search when since is not given (default: ${defaults.days})`,
+                default: defaults.days,
+              },
+              ...DATE_RANGE_PROPERTIES,
+              ...METADATA_FILTER_PROPERTIES,
+              ...FORMAT_PROPERTY,
+              group_by_session: {
+                type: 'boolean',
+                description: "Group entries by the session (conversation) they were written in (default: false)",
+                default: false,
               },
             },
             required: [],
           },
         },
-      ],
-    }));
+        {
+          name: 'list_session_entries',
+          description: "List everything journaled in one working session, oldest first. Defaults to the current session.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              session_id: {
+                type: 'string',
+                description: "Session ID from an entry's frontmatter or list_recent_entries (default: the current session)",
+              },
+              type: {
+                type: 'string',
+                enum: ['project', 'user', 'both'],
+                description: "List project-specific notes, user-global notes, or both (default: both)",
+                default: 'both',
+              },
+              limit: {
+                type: 'number',
+                description: "Maximum number of entries to return (default: 50)",
+                default: 50,
+              },
+              ...FORMAT_PROPERTY,
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'journal_status',
+          description: "Diagnose the journal setup: which project and user journal paths are in use and why, Obsidian vault discovery, whether the embedding model loads offline, missing, stale and orphaned embeddings, and write permissions. Use it when entries or search results seem to be missing.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              format: {
+                type: 'string',
+                enum: ['text', 'json'],
+                description: "'text' for a readable report, or 'json' for the individual checks with their status (default: text)",
+                default: 'text',
+              },
+            },
+            required: [],
+          },
+        },
+      ];
+      return { tools: tools.filter(tool => isToolEnabled(tool.name)) };
+    });
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const args = request.params.arguments as Record<string, unknown>;
+      const defaults = getSearchDefaults();
+
+      if (!isToolEnabled(request.params.name)) {
+        throw new Error(`Tool ${request.params.name} is disabled in the configuration`);
+      }
 
       if (request.params.name === 'process_feelings') {
         if (!args || typeof args.diary_entry !== 'string') {
@@ -162,13 +436,10 @@ export class PrivateJournalServer {
       }
 
       if (request.params.name === 'process_thoughts') {
-        const thoughts = {
-          feelings: typeof args.feelings === 'string' ? args.feelings : undefined,
-          project_notes: typeof args.project_notes === 'string' ? args.project_notes : undefined,
-          user_context: typeof args.user_context === 'string' ? args.user_context : undefined,
-          technical_insights: typeof args.technical_insights === 'string' ? args.technical_insights : undefined,
-          world_knowledge: typeof args.world_knowledge === 'string' ? args.world_knowledge : undefined,
-        };
+        const thoughts: Thoughts = {};
+        for (const { name } of await loadSections()) {
+          thoughts[name] = typeof args[name] === 'string' ? args[name] as string : undefined;
+        }
 
         const hasAnyContent = Object.values(thoughts).some(value => value !== undefined);
         if (!hasAnyContent) {
@@ -176,15 +447,19 @@ export class PrivateJournalServer {
         }
 
         try {
-          await this.journalManager.writeThoughts(thoughts, {
+          const session = this.readString(args, 'session_id') ?? this.sessionId;
+          const entries = await this.journalManager.writeThoughts(thoughts, {
             project: this.projectInfo,
-            agent: this.agentInfo
+            agent: this.agentInfo,
+            session
           });
+          const redactions = entries.reduce((sum, entry) => sum + entry.redactions, 0);
           return {
             content: [
               {
                 type: 'text',
-                text: 'Thoughts recorded successfully.',
+                text: `Thoughts recorded successfully.\n\n${entries.map(entry => `${entry.type} entry ID: ${entry.id}`).join('\n')}\nSession: ${session}` +
+                  (redactions > 0 ? `\n\nRedacted ${redactions} secret${redactions === 1 ? '' : 's'} (tokens, keys or passwords) before writing.` : ''),
               },
             ],
           };
@@ -200,10 +475,15 @@ export class PrivateJournalServer {
         }
 
         const options = {
-          limit: typeof args.limit === 'number' ? args.limit : 10,
+          limit: typeof args.limit === 'number' ? args.limit : defaults.limit,
+          minScore: defaults.minScore,
           type: typeof args.type === 'string' ? args.type as 'project' | 'user' | 'both' : 'both',
-          sections: Array.isArray(args.sections) ? args.sections.filter(s => typeof s === 'string') : undefined,
+          sections: await this.readSectionFilters(args),
+          mode: (['semantic', 'keyword', 'hybrid'].includes(args.mode as string) ? args.mode : 'hybrid') as SearchMode,
+          dateRange: parseDateRange(this.readString(args, 'since'), this.readString(args, 'until')),
+          ...this.readMetadataFilters(args),
         };
+        const format = parseResultFormat(args.format);
 
         try {
           const results = await this.searchService.search(args.query, options);
@@ -211,14 +491,7 @@ export class PrivateJournalServer {
             content: [
               {
                 type: 'text',
-                text: results.length > 0
-                  ? `Found ${results.length} relevant entries:\n\n${results.map((result: { score: number; timestamp: number; type: string; sections: string[]; path: string; excerpt: string }, i: number) =>
-                    `${i + 1}. [Score: ${result.score.toFixed(3)}] ${new Date(result.timestamp).toLocaleDateString()} (${result.type})\n` +
-                    `   Sections: ${result.sections.join(', ')}\n` +
-                    `   Path: ${result.path}\n` +
-                    `   Excerpt: ${result.excerpt}\n`
-                  ).join('\n')}`
-                  : 'No relevant entries found.',
+                text: formatSearchResults(results, format),
               },
             ],
           };
@@ -228,13 +501,47 @@ export class PrivateJournalServer {
         }
       }
 
+      if (request.params.name === 'find_related_entries') {
+        const entry = typeof args?.id === 'string' ? args.id : args?.path;
+        if (typeof entry !== 'string') {
+          throw new Error('id or path is required and must be a string');
+        }
+
+        const options = {
+          limit: typeof args?.limit === 'number' ? args.limit : 5,
+          minScore: defaults.minScore,
+          type: typeof args?.type === 'string' ? args.type as 'project' | 'user' | 'both' : 'both',
+          sections: await this.readSectionFilters(args),
+        };
+        const format = parseResultFormat(args?.format);
+
+        try {
+          const results = await this.searchService.findRelated(entry, options);
+          if (results === null) {
+            throw new Error('Entry not found');
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatSearchResults(results, format),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          throw new Error(`Failed to find related entries: ${errorMessage}`);
+        }
+      }
+
       if (request.params.name === 'read_journal_entry') {
-        if (!args || typeof args.path !== 'string') {
-          throw new Error('path is required and must be a string');
+        const entry = typeof args?.id === 'string' ? args.id : args?.path;
+        if (typeof entry !== 'string') {
+          throw new Error('id or path is required and must be a string');
         }
 
         try {
-          const content = await this.searchService.readEntry(args.path);
+          const content = await this.searchService.readEntry(entry);
           if (content === null) {
             throw new Error('Entry not found');
           }
@@ -252,19 +559,121 @@ export class PrivateJournalServer {
         }
       }
 
+      if (request.params.name === 'amend_journal_entry') {
+        const entry = typeof args?.id === 'string' ? args.id : args?.path;
+        if (typeof entry !== 'string') {
+          throw new Error('id or path is required and must be a string');
+        }
+        if (typeof args.content !== 'string') {
+          throw new Error('content is required and must be a string');
+        }
+
+        const mode = args.mode === 'replace' ? 'replace' : 'append';
+
+        try {
+          const filePath = await this.searchService.resolveEntryPath(entry);
+          if (!filePath) {
+            throw new Error('Entry not found');
+          }
+          const redactions = await this.journalManager.amendEntry(filePath, {
+            mode,
+            content: args.content,
+            section: typeof args.section === 'string' ? args.section : undefined,
+            reason: typeof args.reason === 'string' ? args.reason : undefined,
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: (mode === 'replace' ? `Replaced section ${args.section} in ${entry}.` : `Added addendum to ${entry}.`) +
+                  (redactions > 0 ? `\n\nRedacted ${redactions} secret${redactions === 1 ? '' : 's'} (tokens, keys or passwords) before writing.` : ''),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          throw new Error(`Failed to amend entry: ${errorMessage}`);
+        }
+      }
+
+      if (request.params.name === 'delete_journal_entry') {
+        const entry = typeof args?.id === 'string' ? args.id : args?.path;
+        if (typeof entry !== 'string') {
+          throw new Error('id or path is required and must be a string');
+        }
+
+        try {
+          const filePath = await this.searchService.resolveEntryPath(entry);
+          if (!filePath) {
+            throw new Error('Entry not found');
+          }
+          await this.journalManager.deleteEntry(filePath);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Deleted ${entry}.`,
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          throw new Error(`Failed to delete entry: ${errorMessage}`);
+        }
+      }
+
+      if (request.params.name === 'redact_section') {
+        const entry = typeof args?.id === 'string' ? args.id : args?.path;
+        if (typeof entry !== 'string') {
+          throw new Error('id or path is required and must be a string');
+        }
+        if (typeof args.section !== 'string') {
+          throw new Error('section is required and must be a string');
+        }
+
+        try {
+          const filePath = await this.searchService.resolveEntryPath(entry);
+          if (!filePath) {
+            throw new Error('Entry not found');
+          }
+          await this.journalManager.redactSection(
+            filePath,
+            args.section,
+            typeof args.reason === 'string' ? args.reason : undefined
+          );
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Redacted section ${args.section} from ${entry}.`,
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          throw new Error(`Failed to redact section: ${errorMessage}`);
+        }
+      }
+
       if (request.params.name === 'list_recent_entries') {
-        const days = typeof args?.days === 'number' ? args.days : 30;
-        const limit = typeof args?.limit === 'number' ? args.limit : 10;
+        const days = typeof args?.days === 'number' ? args.days : defaults.days;
+        const limit = typeof args?.limit === 'number' ? args.limit : defaults.limit;
         const type = typeof args?.type === 'string' ? args.type as 'project' | 'user' | 'both' : 'both';
 
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - days);
+        const since = this.readString(args, 'since');
+        const until = this.readString(args, 'until');
+        // days only applies when no explicit window is given
+        const dateRange = parseDateRange(since ?? (until ? undefined : `${days}d`), until);
+        const period = since || until ? `${since ?? 'the beginning'} to ${until ?? 'now'}` : `last ${days} days`;
 
         const options = {
           limit,
           type,
-          dateRange: { start: startDate }
+          dateRange,
+          ...this.readMetadataFilters(args)
         };
+        const format = parseResultFormat(args?.format);
+        const groupBySession = args?.group_by_session === true;
 
         try {
           const results = await this.searchService.listRecent(options);
@@ -272,14 +681,7 @@ export class PrivateJournalServer {
             content: [
               {
                 type: 'text',
-                text: results.length > 0
-                  ? `Recent entries (last ${days} days):\n\n${results.map((result: { timestamp: number; type: string; sections: string[]; path: string; excerpt: string }, i: number) =>
-                    `${i + 1}. ${new Date(result.timestamp).toLocaleDateString()} (${result.type})\n` +
-                    `   Sections: ${result.sections.join(', ')}\n` +
-                    `   Path: ${result.path}\n` +
-                    `   Excerpt: ${result.excerpt}\n`
-                  ).join('\n')}`
-                  : `No entries found in the last ${days} days.`,
+                text: formatRecentEntries(results, period, format, groupBySession),
               },
             ],
           };
@@ -289,17 +691,121 @@ export class PrivateJournalServer {
         }
       }
 
+      if (request.params.name === 'list_session_entries') {
+        const session = this.readString(args, 'session_id') ?? this.sessionId;
+        const options = {
+          limit: typeof args?.limit === 'number' ? args.limit : 50,
+          type: typeof args?.type === 'string' ? args.type as 'project' | 'user' | 'both' : 'both',
+          session
+        };
+        const format = parseResultFormat(args?.format);
+
+        try {
+          // listRecent returns the newest entries; review them in the order they were written
+          const results = (await this.searchService.listRecent(options)).reverse();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatSessionEntries(results, session, format),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          throw new Error(`Failed to list session entries: ${errorMessage}`);
+        }
+      }
+
+      if (request.params.name === 'reindex_journal') {
+        const staleOnly = args?.stale_only === true;
+
+        try {
+          const count = staleOnly
+            ? await this.journalManager.generateMissingEmbeddings()
+            : await this.journalManager.reindex();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Regenerated embeddings for ${count} journal entries.`,
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          throw new Error(`Failed to reindex journal: ${errorMessage}`);
+        }
+      }
+
+      if (request.params.name === 'journal_status') {
+        const format = parseResultFormat(args?.format);
+
+        try {
+          const report = await runDoctor(this.journalPath);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatDoctorReport(report, format),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          throw new Error(`Failed to check journal status: ${errorMessage}`);
+        }
+      }
+
       throw new Error(`Unknown tool: ${request.params.name}`);
     });
   }
 
+  private getSectionProperties(sections: SectionDefinition[]): Record<string, { type: string; description: string }> {
+    return Object.fromEntries(sections.map(section => [section.name, { type: 'string', description: section.description }]));
+  }
+
+  // Section filters may use a section's name; entries only contain its heading
+  private async readSectionFilters(args: Record<string, unknown> | undefined): Promise<string[] | undefined> {
+    if (!Array.isArray(args?.sections)) {
+      return undefined;
+    }
+    const sections = await loadSections();
+    return args.sections
+      .filter((section): section is string => typeof section === 'string')
+      .map(section => resolveSectionHeading(section, sections));
+  }
+
+  private readString(args: Record<string, unknown> | undefined, name: string): string | undefined {
+    const value = args?.[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  private readMetadataFilters(args: Record<string, unknown> | undefined): Pick<SearchOptions, 'project' | 'agent' | 'tags'> {
+    return {
+      project: this.readString(args, 'project'),
+      agent: this.readString(args, 'agent'),
+      tags: Array.isArray(args?.tags) ? args.tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+    };
+  }
+
   async run(): Promise<void> {
     // Capture project info at startup
     this.projectInfo = await getProjectInfo();
 
+    // Move per-file JSON embeddings into the packed index if that format is configured
+    try {
+      const migrated = await this.journalManager.migrateEmbeddingStorage();
+      if (migrated > 0) {
+        console.error(`Migrated ${migrated} embeddings to the packed index.`);
+      }
+    } catch (error) {
+      console.error('Failed to migrate embedding storage:', error);
+    }
+
     // Generate missing embeddings on startup
     try {
-      console.error('Checking for missing embeddings...');
+      console.error('Checking for missing or stale embeddings...');
       const count = await this.journalManager.generateMissingEmbeddings();
       if (count > 0) {
         console.error(`Generated embeddings for ${count} existing journal entries.`);
@@ -309,6 +815,19 @@ export class PrivateJournalServer {
       // Don't fail startup if embedding generation fails
     }
 
+    // Keep embeddings in memory and follow changes made outside this process
+    try {
+      const indexed = await this.searchService.loadIndex();
+      console.error(`Indexed ${indexed} journal entries for search.`);
+      await this.searchService.watch(mdPath => {
+        this.journalManager.syncEntry(mdPath).catch(error => {
+          console.error(`Failed to index changed entry ${mdPath}:`, error);
+        });
+      });
+    } catch (error) {
+      console.error('Failed to build search index, falling back to on-demand loading:', error);
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
 
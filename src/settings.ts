@@ -0,0 +1,332 @@
+// ABOUTME: Layered configuration: user config file, project config file, env vars, then CLI flags
+// ABOUTME: Loads and validates the config files and resolves each setting by precedence
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse } from 'yaml';
+import type { RedactionConfig } from './redaction.js';
+import type { SectionsConfig } from './sections.js';
+
+export interface JournalSettings {
+  userJournalPath?: string;
+  vault?: string; // Obsidian vault holding the user journal
+  embedding?: {
+    provider?: string;
+    model?: string;
+    url?: string;
+    apiKey?: string;
+    dimensions?: number;
+    storage?: string;
+  };
+  tools?: {
+    enabled?: string[]; // Only these tools are offered
+    disabled?: string[];
+  };
+  search?: {
+    limit?: number; // Default number of search results and listed entries
+    minScore?: number;
+    days?: number; // Default window of list_recent_entries
+  };
+  sections?: SectionsConfig;
+  redaction?: RedactionConfig;
+}
+
+export interface ResolvedSetting {
+  value: string;
+  source: string; // Layer the value came from, e.g. "environment variable AGENTIC_JOURNAL_PATH"
+}
+
+type ConfiguredSection = NonNullable<SectionsConfig['sections']>[number];
+
+// Config files merged in order, project over user; command line flags apply last
+let fileSettings: JournalSettings = {};
+let commandLineSettings: JournalSettings = {};
+let projectSections: ConfiguredSection[] = [];
+let loadedFiles: string[] = [];
+
+const CONFIG_FILE_NAMES = ['config.json', 'config.yaml', 'config.yml'];
+const PROJECT_CONFIG_FILE_NAMES = ['config', ...CONFIG_FILE_NAMES];
+
+// The project config file comes with the repository, so it may only change
+// how this project is searched and written, never where private entries,
+// embedding requests or API keys go
+const PROJECT_SETTINGS = ['search', 'tools', 'sections'];
+
+/**
+ * Directory of the user-level config file: %APPDATA%\private-journal on
+ * Windows, $XDG_CONFIG_HOME/private-journal or ~/.config/private-journal elsewhere.
+ */
+export function getUserConfigDirectory(): string {
+  if (process.env.APPDATA) {
+    return path.win32.join(process.env.APPDATA, 'private-journal');
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || path.posix.join(process.env.HOME || '/tmp', '.config');
+  return path.posix.join(configHome, 'private-journal');
+}
+
+/**
+ * Reads the user and project config files and records the command line
+ * overrides. AGENTIC_JOURNAL_CONFIG names the user config file explicitly.
+ * The project file may only set search, tools and project-scoped sections;
+ * anything else in it is ignored with a warning.
+ * @param projectJournalPath - project journal directory, holding the project config file
+ * @param overrides - settings given as command line flags
+ * @returns the config files that were read
+ * @throws if a config file can't be parsed or has invalid settings
+ */
+export async function loadSettings(projectJournalPath: string, overrides: JournalSettings = {}): Promise<string[]> {
+  const explicitUserConfig = process.env.AGENTIC_JOURNAL_CONFIG?.trim();
+  const userConfig = explicitUserConfig
+    || await findFile(getUserConfigDirectory(), CONFIG_FILE_NAMES);
+  const projectConfig = await findFile(projectJournalPath, PROJECT_CONFIG_FILE_NAMES);
+
+  let merged: JournalSettings = userConfig ? await readSettingsFile(userConfig) : {};
+  let sections: ConfiguredSection[] = [];
+  if (projectConfig) {
+    const projectSettings = restrictProjectSettings(await readSettingsFile(projectConfig), projectConfig);
+    sections = projectSettings.sections?.sections || [];
+    merged = {
+      ...mergeSettings(merged, { search: projectSettings.search }),
+      tools: narrowTools(merged.tools, projectSettings.tools)
+    };
+  }
+
+  const files = [userConfig, projectConfig].filter((file): file is string => Boolean(file));
+  fileSettings = merged;
+  commandLineSettings = validateSettings(overrides, 'command line');
+  projectSections = sections;
+  loadedFiles = files;
+  return files;
+}
+
+/**
+ * Config files read by the last loadSettings call, user file first.
+ */
+export function getLoadedSettingsFiles(): string[] {
+  return loadedFiles;
+}
+
+/**
+ * Sections added by the project config file, all project-scoped. They are
+ * applied on top of the sections configured for the user.
+ */
+export function getProjectSections(): ConfiguredSection[] {
+  return projectSections;
+}
+
+/**
+ * Settings from the config files and command line. Settings that can also be
+ * given as environment variables should be read with resolveSetting.
+ */
+export function getSettings(): JournalSettings {
+  return mergeSettings(fileSettings, commandLineSettings);
+}
+
+/**
+ * Resolves a setting that can come from any layer: command line flags win
+ * over the environment variable, which wins over the config files.
+ * @returns the setting as a string, or undefined when no layer sets it
+ */
+export function resolveSetting(
+  envName: string,
+  select: (settings: JournalSettings) => string | number | undefined
+): string | undefined {
+  return findSetting(envName, select)?.value;
+}
+
+/**
+ * Like resolveSetting, but also tells which layer the value came from.
+ */
+export function findSetting(
+  envName: string,
+  select: (settings: JournalSettings) => string | number | undefined
+): ResolvedSetting | undefined {
+  const fromCommandLine = select(commandLineSettings);
+  if (fromCommandLine !== undefined) {
+    return { value: String(fromCommandLine), source: 'command line flag' };
+  }
+
+  const fromEnv = process.env[envName];
+  if (fromEnv) {
+    return { value: fromEnv, source: `environment variable ${envName}` };
+  }
+
+  const fromFile = select(fileSettings);
+  return fromFile === undefined ? undefined : { value: String(fromFile), source: 'config file' };
+}
+
+/**
+ * Forgets loaded settings, e.g. between tests.
+ */
+export function resetSettings(): void {
+  fileSettings = {};
+  commandLineSettings = {};
+  projectSections = [];
+  loadedFiles = [];
+}
+
+export async function readSettingsFile(file: string): Promise<JournalSettings> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let data: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser reads both formats
+    data = parse(content);
+  } catch (error) {
+    throw new Error(`Invalid config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  return validateSettings(data ?? {}, file);
+}
+
+/**
+ * Checks the shape of a settings object.
+ * @param source - where the settings came from, for error messages
+ * @throws naming the first invalid setting
+ */
+export function validateSettings(data: unknown, source: string): JournalSettings {
+  const fail = (key: string, expected: string): never => {
+    throw new Error(`Invalid setting "${key}" in ${source}: expected ${expected}`);
+  };
+  const object = (value: unknown, key: string, allowed: string[]): Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(key, 'key/value pairs');
+    }
+    const unknown = Object.keys(value).find(name => !allowed.includes(name));
+    if (unknown) {
+      throw new Error(`Unknown setting "${key ? `${key}.` : ''}${unknown}" in ${source}`);
+    }
+    return value as Record<string, unknown>;
+  };
+  const optional = (value: unknown, key: string, expected: string, valid: (value: unknown) => boolean): void => {
+    if (value !== undefined && !valid(value)) {
+      fail(key, expected);
+    }
+  };
+  const isString = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+  const isStringList = (value: unknown): boolean => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+
+  const settings = object(data, '', ['userJournalPath', 'vault', 'embedding', 'tools', 'search', 'sections', 'redaction']);
+  optional(settings.userJournalPath, 'userJournalPath', 'a path', isString);
+  optional(settings.vault, 'vault', 'a vault name', isString);
+
+  if (settings.embedding !== undefined) {
+    const embedding = object(settings.embedding, 'embedding', ['provider', 'model', 'url', 'apiKey', 'dimensions', 'storage']);
+    optional(embedding.provider, 'embedding.provider', 'transformers, hashing or openai', value =>
+      typeof value === 'string' && ['transformers', 'hashing', 'openai'].includes(value));
+    optional(embedding.model, 'embedding.model', 'a model name', isString);
+    optional(embedding.url, 'embedding.url', 'a URL', isString);
+    optional(embedding.apiKey, 'embedding.apiKey', 'a string', isString);
+    optional(embedding.dimensions, 'embedding.dimensions', 'a positive integer', isPositiveInteger);
+    optional(embedding.storage, 'embedding.storage', 'json or packed', value => value === 'json' || value === 'packed');
+  }
+
+  if (settings.tools !== undefined) {
+    const tools = object(settings.tools, 'tools', ['enabled', 'disabled']);
+    optional(tools.enabled, 'tools.enabled', 'a list of tool names', isStringList);
+    optional(tools.disabled, 'tools.disabled', 'a list of tool names', isStringList);
+  }
+
+  if (settings.search !== undefined) {
+    const search = object(settings.search, 'search', ['limit', 'minScore', 'days']);
+    optional(search.limit, 'search.limit', 'a positive integer', isPositiveInteger);
+    optional(search.minScore, 'search.minScore', 'a number from 0 to 1', value =>
+      typeof value === 'number' && value >= 0 && value <= 1);
+    optional(search.days, 'search.days', 'a positive integer', isPositiveInteger);
+  }
+
+  // Sections and redaction rules are checked in full when they are loaded
+  if (settings.sections !== undefined) {
+    const sections = object(settings.sections, 'sections', ['useDefaults', 'disable', 'sections']);
+    optional(sections.disable, 'sections.disable', 'a list of section names', isStringList);
+    optional(sections.sections, 'sections.sections', 'a list of sections', Array.isArray);
+  }
+  if (settings.redaction !== undefined) {
+    const redaction = object(settings.redaction, 'redaction', ['useDefaults', 'disable', 'patterns']);
+    optional(redaction.disable, 'redaction.disable', 'a list of pattern names', isStringList);
+    optional(redaction.patterns, 'redaction.patterns', 'a list of patterns', Array.isArray);
+  }
+
+  return settings as JournalSettings;
+}
+
+// Drops what a project config file may not set, warning about each setting
+function restrictProjectSettings(settings: JournalSettings, file: string): JournalSettings {
+  const ignore = (key: string, reason: string): void => {
+    console.error(`Ignoring setting "${key}" in project config file ${file}: ${reason}`);
+  };
+
+  for (const key of Object.keys(settings)) {
+    if (!PROJECT_SETTINGS.includes(key)) {
+      ignore(key, 'a project can only set search, tools and project-scoped sections');
+    }
+  }
+
+  const { useDefaults, disable, sections = [] } = settings.sections || {};
+  if (useDefaults !== undefined) {
+    ignore('sections.useDefaults', 'a project can only add sections');
+  }
+  if (disable !== undefined) {
+    ignore('sections.disable', 'a project can only add sections');
+  }
+  const projectScoped = sections.filter(section => {
+    if (section.scope !== 'project') {
+      ignore(`sections.${section.name}`, 'a project can only add sections with scope project');
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    search: settings.search,
+    tools: settings.tools,
+    sections: projectScoped.length > 0 ? { sections: projectScoped } : undefined
+  };
+}
+
+// A project can turn tools off but never back on: its disabled tools add to
+// the user's, and its enabled list only keeps tools the user's list allows
+function narrowTools(user: JournalSettings['tools'], project: JournalSettings['tools']): JournalSettings['tools'] {
+  if (!project) {
+    return user;
+  }
+
+  const disabled = [...new Set([...(user?.disabled || []), ...(project.disabled || [])])];
+  const enabled = user?.enabled && project.enabled
+    ? project.enabled.filter(name => user.enabled!.includes(name))
+    : user?.enabled ?? project.enabled;
+  return {
+    ...(enabled ? { enabled } : {}),
+    ...(disabled.length > 0 ? { disabled } : {})
+  };
+}
+
+// Nested groups merge key by key; lists and sections/redaction rules are replaced whole
+function mergeSettings(base: JournalSettings, override: JournalSettings): JournalSettings {
+  return {
+    ...base,
+    ...override,
+    embedding: base.embedding || override.embedding ? { ...base.embedding, ...override.embedding } : undefined,
+    tools: base.tools || override.tools ? { ...base.tools, ...override.tools } : undefined,
+    search: base.search || override.search ? { ...base.search, ...override.search } : undefined
+  };
+}
+
+async function findFile(directory: string, names: string[]): Promise<string | undefined> {
+  for (const name of names) {
+    const file = path.join(directory, name);
+    try {
+      if ((await fs.stat(file)).isFile()) {
+        return file;
+      }
+    } catch {
+      // Not there; try the next name
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,75 @@
+// ABOUTME: Summarizes a journal listing: entry counts, date span, sections, tags and projects
+// ABOUTME: Rendered as text for the terminal or as JSON
+
+import { SearchResult } from './search.js';
+import { ResultFormat } from './formatters.js';
+
+export interface JournalStats {
+  entries: number;
+  project: number; // Entries in the project journal
+  user: number; // Entries in the user journal
+  first?: string; // ISO 8601 date of the oldest entry
+  last?: string;
+  sessions: number; // Distinct recorded sessions
+  sections: Record<string, number>; // Entries containing each section
+  tags: Record<string, number>;
+  projects: Record<string, number>;
+}
+
+// Tags and projects shown in text output; JSON output has all of them
+const TOP_COUNT = 10;
+
+export function computeJournalStats(results: SearchResult[]): JournalStats {
+  const count = (counts: Record<string, number>, key: string): void => {
+    counts[key] = (counts[key] || 0) + 1;
+  };
+
+  const stats: JournalStats = { entries: results.length, project: 0, user: 0, sessions: 0, sections: {}, tags: {}, projects: {} };
+  const sessions = new Set<string>();
+  const timestamps = results.map(result => result.timestamp);
+
+  for (const result of results) {
+    stats[result.type]++;
+    result.sections.forEach(section => count(stats.sections, section));
+    (result.tags || []).forEach(tag => count(stats.tags, tag));
+    if (result.project) {
+      count(stats.projects, result.project);
+    }
+    if (result.session) {
+      sessions.add(result.session);
+    }
+  }
+
+  stats.sessions = sessions.size;
+  if (timestamps.length > 0) {
+    stats.first = new Date(Math.min(...timestamps)).toISOString();
+    stats.last = new Date(Math.max(...timestamps)).toISOString();
+  }
+  return stats;
+}
+
+export function formatJournalStats(stats: JournalStats, format: ResultFormat = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify(stats, null, 2);
+  }
+
+  if (stats.entries === 0) {
+    return 'The journal has no entries.';
+  }
+
+  const top = (counts: Record<string, number>): string => Object.entries(counts)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, TOP_COUNT)
+    .map(([name, count]) => `${name} (${count})`)
+    .join(', ') || 'none';
+
+  return [
+    `Entries: ${stats.entries} (${stats.project} project, ${stats.user} user)`,
+    `First entry: ${new Date(stats.first!).toLocaleString()}`,
+    `Last entry: ${new Date(stats.last!).toLocaleString()}`,
+    `Sessions: ${stats.sessions}`,
+    `Sections: ${top(stats.sections)}`,
+    `Tags: ${top(stats.tags)}`,
+    `Projects: ${top(stats.projects)}`
+  ].join('\n');
+}
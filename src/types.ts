@@ -2,9 +2,16 @@
 // ABOUTME: Defines interfaces for journal entries and configuration
 
 export interface JournalEntry {
-  content: string;
-  timestamp: Date;
+  content: string; // Markdown body, without frontmatter
+  timestamp?: Date; // Missing only for entries whose frontmatter has no timestamp or date
   filePath: string;
+  id?: string;
+  title?: string;
+  date?: string;
+  project?: string;
+  agent?: string;
+  session?: string; // Conversation the entry was written in
+  tags: string[];
 }
 
 export interface ServerConfig {
@@ -15,10 +22,5 @@ export interface ProcessFeelingsRequest {
   diary_entry: string;
 }
 
-export interface ProcessThoughtsRequest {
-  feelings?: string;
-  project_notes?: string;
-  user_context?: string;
-  technical_insights?: string;
-  world_knowledge?: string;
-}
\ No newline at end of file
+// Keyed by section name; see sections.ts for the registered sections
+export type ProcessThoughtsRequest = Record<string, string | undefined>;
\ No newline at end of file
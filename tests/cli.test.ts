@@ -0,0 +1,144 @@
+// ABOUTME: Unit tests for the command line interface
+// ABOUTME: Tests argument parsing and the search, list, show, stats and export subcommands
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { EmbeddingService } from '../src/embeddings';
+import { JournalManager } from '../src/journal';
+import { parseCommandLine, runCli } from '../src/cli';
+import { resetSettings } from '../src/settings';
+
+describe('Command line interface', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+  let output: string[];
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-user-test-'));
+    originalEnv = { ...process.env };
+    process.env.AGENTIC_JOURNAL_PATH = userTempDir;
+    // No user config file
+    process.env.XDG_CONFIG_HOME = projectTempDir;
+    delete process.env.AGENTIC_JOURNAL_CONFIG;
+    delete process.env.APPDATA;
+
+    output = [];
+    logSpy = jest.spyOn(console, 'log').mockImplementation((text: string) => { output.push(text); });
+  });
+
+  afterEach(async () => {
+    logSpy.mockRestore();
+    process.env = originalEnv;
+    resetSettings();
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  async function run(...argv: string[]): Promise<number> {
+    return runCli([...argv, '--journal-path', projectTempDir]);
+  }
+
+  test('parses subcommands, flags and setting overrides', () => {
+    const commandLine = parseCommandLine([
+      'search', 'flaky', 'tests', '--limit', '5', '--format=json', '--stale-only', '--embedding-provider', 'hashing'
+    ]);
+
+    expect(commandLine.command).toBe('search');
+    expect(commandLine.args).toEqual(['flaky', 'tests']);
+    expect(commandLine.options).toMatchObject({ limit: '5', format: 'json', 'stale-only': true });
+    expect(commandLine.settings).toEqual({ embedding: { provider: 'hashing' } });
+  });
+
+  test('serves by default and rejects unknown flags', () => {
+    expect(parseCommandLine(['--journal-path', '/tmp/journal'])).toMatchObject({ command: 'serve', journalPath: path.resolve('/tmp/journal') });
+    expect(() => parseCommandLine(['list', '--verbose'])).toThrow('Unknown option --verbose');
+    expect(() => parseCommandLine(['list', '--limit'])).toThrow('--limit needs a value');
+  });
+
+  test('lists, searches and shows entries', async () => {
+    await new JournalManager(projectTempDir, userTempDir).writeThoughts(
+      { project_notes: 'The webhook retries use exponential backoff', feelings: 'Relieved the deploy worked' },
+      { project: 'acme/widgets' }
+    );
+
+    expect(await run('list', '--format', 'json')).toBe(0);
+    const listed = JSON.parse(output.pop()!);
+    expect(listed.results).toHaveLength(2);
+
+    expect(await run('list', '--sections', 'feelings', '--format', 'json')).toBe(0);
+    expect(JSON.parse(output.pop()!).results.map((result: { type: string }) => result.type)).toEqual(['user']);
+
+    expect(await run('search', 'exponential', 'backoff', '--mode', 'keyword', '--type', 'project')).toBe(0);
+    expect(output.pop()).toContain('Found 1 relevant entries');
+
+    const entry = listed.results.find((result: { type: string }) => result.type === 'user');
+    expect(await run('show', entry.id)).toBe(0);
+    expect(output.pop()).toContain('Relieved the deploy worked');
+  });
+
+  test('summarizes the journal', async () => {
+    await new JournalManager(projectTempDir, userTempDir).writeThoughts(
+      { project_notes: 'Note', technical_insights: 'Insight' },
+      { project: 'acme/widgets' }
+    );
+
+    expect(await run('stats', '--format', 'json')).toBe(0);
+    expect(JSON.parse(output.pop()!)).toMatchObject({
+      entries: 2,
+      project: 1,
+      user: 1,
+      sections: { 'Project Notes': 1, 'Technical Insights': 1 },
+      projects: { 'acme/widgets': 2 }
+    });
+
+    expect(await run('stats', '--sections', 'Technical Insights', '--format', 'json')).toBe(0);
+    expect(JSON.parse(output.pop()!)).toMatchObject({ entries: 1, project: 0, user: 1 });
+  });
+
+  test('exports to stdout or a file', async () => {
+    await new JournalManager(projectTempDir, userTempDir).writeThoughts({ feelings: 'Exported feeling' });
+
+    expect(await run('export', 'jsonl')).toBe(0);
+    expect(JSON.parse(output.pop()!).sections).toEqual([{ heading: 'Feelings', text: 'Exported feeling' }]);
+
+    const site = path.join(projectTempDir, 'site');
+    expect(await run('export', 'html', '--output', site)).toBe(0);
+    expect(output.pop()).toBe(`Exported 1 entries to ${site}.`);
+    expect(await fs.readFile(path.join(site, 'index.html'), 'utf8')).toContain('1 entry');
+  });
+
+  test('migrates JSON embeddings into the packed index before reindexing', async () => {
+    const [entry] = await new JournalManager(projectTempDir, userTempDir).writeThoughts({ project_notes: 'Packed later' });
+    const embeddingPath = entry.path.replace(/\.md$/, '.embedding');
+    expect((await fs.stat(embeddingPath)).isFile()).toBe(true);
+
+    const embeddingService = EmbeddingService.getInstance();
+    embeddingService.setStorageFormat('packed');
+    try {
+      expect(await run('reindex', '--stale-only')).toBe(0);
+    } finally {
+      embeddingService.setStorageFormat('json');
+    }
+
+    expect(output.pop()).toBe('Migrated 1 embeddings to the packed index.\nRegenerated embeddings for 0 journal entries.');
+    await expect(fs.stat(embeddingPath)).rejects.toThrow();
+    expect((await fs.stat(path.join(projectTempDir, 'embeddings.pack'))).isFile()).toBe(true);
+  });
+
+  test('reports errors with a non-zero exit code', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      expect(await run('frobnicate')).toBe(1);
+      expect(await run('show', 'user/2020-01-01/00-00-00-000000')).toBe(1);
+      expect(await run('list', '--limit', 'many')).toBe(1);
+      expect(errorSpy).toHaveBeenCalledWith('Failed to run list:', '--limit must be a positive integer');
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+});
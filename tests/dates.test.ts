@@ -0,0 +1,48 @@
+// ABOUTME: Unit tests for parsing since/until arguments into date ranges
+// ABOUTME: Tests ISO dates, relative offsets, named periods and invalid input
+
+import { parseDateBound, parseDateRange } from '../src/dates';
+
+describe('Date arguments', () => {
+  // Wednesday 2025-12-17 15:30 local time
+  const now = new Date(2025, 11, 17, 15, 30);
+
+  test('parses ISO dates as whole local days', () => {
+    expect(parseDateBound('2025-12-01', 'start', now)).toEqual(new Date(2025, 11, 1));
+    expect(parseDateBound('2025-12-01', 'end', now)).toEqual(new Date(2025, 11, 1, 23, 59, 59, 999));
+    expect(parseDateBound('2025-12-01T10:00:00Z', 'start', now)).toEqual(new Date(Date.UTC(2025, 11, 1, 10)));
+  });
+
+  test('parses relative offsets from now', () => {
+    expect(parseDateBound('7d', 'start', now)).toEqual(new Date(2025, 11, 10, 15, 30));
+    expect(parseDateBound('12h', 'start', now)).toEqual(new Date(2025, 11, 17, 3, 30));
+    expect(parseDateBound('2w', 'start', now)).toEqual(new Date(2025, 11, 3, 15, 30));
+    expect(parseDateBound('3m', 'start', now)).toEqual(new Date(2025, 8, 17, 15, 30));
+    expect(parseDateBound('1y', 'start', now)).toEqual(new Date(2024, 11, 17, 15, 30));
+  });
+
+  test('resolves named periods to their start or end', () => {
+    expect(parseDateBound('today', 'start', now)).toEqual(new Date(2025, 11, 17));
+    expect(parseDateBound('yesterday', 'end', now)).toEqual(new Date(2025, 11, 16, 23, 59, 59, 999));
+    expect(parseDateBound('this week', 'start', now)).toEqual(new Date(2025, 11, 15));
+    expect(parseDateBound('Last Week', 'start', now)).toEqual(new Date(2025, 11, 8));
+    expect(parseDateBound('last week', 'end', now)).toEqual(new Date(2025, 11, 14, 23, 59, 59, 999));
+    expect(parseDateBound('last month', 'start', now)).toEqual(new Date(2025, 10, 1));
+    expect(parseDateBound('last month', 'end', now)).toEqual(new Date(2025, 10, 30, 23, 59, 59, 999));
+    expect(parseDateBound('this year', 'start', now)).toEqual(new Date(2025, 0, 1));
+  });
+
+  test('builds ranges from optional bounds', () => {
+    expect(parseDateRange(undefined, undefined, now)).toEqual({ start: undefined, end: undefined });
+    expect(parseDateRange('last month', 'last month', now)).toEqual({
+      start: new Date(2025, 10, 1),
+      end: new Date(2025, 10, 30, 23, 59, 59, 999)
+    });
+  });
+
+  test('rejects unsupported values and inverted ranges', () => {
+    expect(() => parseDateBound('next week', 'start', now)).toThrow('Invalid date "next week"');
+    expect(() => parseDateBound('2025-02-30', 'start', now)).toThrow('Invalid date');
+    expect(() => parseDateRange('today', '7d', now)).toThrow('Invalid date range');
+  });
+});
@@ -0,0 +1,101 @@
+// ABOUTME: Unit tests for the journal diagnostics behind the doctor command and journal_status tool
+// ABOUTME: Tests path reporting, vault discovery, embedding health counts and report formatting
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { env } from '@xenova/transformers';
+
+import { JournalManager } from '../src/journal';
+import { DoctorReport, formatDoctorReport, runDoctor } from '../src/doctor';
+
+describe('Journal doctor', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'doctor-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'doctor-user-test-'));
+    originalEnv = { ...process.env };
+    process.env.AGENTIC_JOURNAL_PATH = userTempDir;
+    delete process.env.AGENTIC_JOURNAL_VAULT;
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_PROVIDER;
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  function check(report: DoctorReport, name: string) {
+    return report.checks.find(candidate => candidate.name === name);
+  }
+
+  test('reports paths, the cached model and write access', async () => {
+    const modelDir = path.join(userTempDir, 'model-cache', 'Xenova', 'all-MiniLM-L6-v2');
+    await fs.mkdir(path.join(modelDir, 'onnx'), { recursive: true });
+    await fs.writeFile(path.join(modelDir, 'config.json'), '{}', 'utf8');
+    await fs.writeFile(path.join(modelDir, 'onnx', 'model_quantized.onnx'), '', 'utf8');
+    const originalCacheDir = env.cacheDir;
+    env.cacheDir = path.join(userTempDir, 'model-cache');
+
+    let report: DoctorReport;
+    try {
+      report = await runDoctor(projectTempDir);
+    } finally {
+      env.cacheDir = originalCacheDir;
+    }
+
+    expect(check(report, 'Project journal')).toEqual({ name: 'Project journal', status: 'ok', detail: `${projectTempDir} (set with --journal-path)` });
+    expect(check(report, 'User journal')?.detail).toBe(`${userTempDir} (explicit path (environment variable AGENTIC_JOURNAL_PATH))`);
+    expect(check(report, 'Embedding model')).toMatchObject({ status: 'ok', detail: expect.stringContaining(modelDir) });
+    expect(check(report, 'Write access (user)')).toMatchObject({ status: 'ok', detail: `${userTempDir} is writable` });
+    expect(report.errors).toBe(0);
+  });
+
+  test('counts missing and orphaned embeddings', async () => {
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    const [project, user] = await journalManager.writeThoughts({ project_notes: 'Kept', feelings: 'Deleted later' });
+    await fs.rm(user.path);
+    await fs.writeFile(path.join(path.dirname(project.path), '23-59-59-000000.md'), '# Unindexed\n', 'utf8');
+
+    const report = await runDoctor(projectTempDir);
+
+    expect(check(report, 'Embeddings (project)')).toMatchObject({ status: 'warning', detail: expect.stringContaining('2 entries, 1 missing, 0 stale, 0 orphaned') });
+    expect(check(report, 'Embeddings (user)')).toMatchObject({ status: 'warning', detail: expect.stringContaining('0 entries, 0 missing, 0 stale, 1 orphaned') });
+    expect(check(report, 'Embedding model')).toMatchObject({ status: 'warning', detail: expect.stringContaining('will be downloaded on first use') });
+    expect(report.warnings).toBe(3);
+  });
+
+  test('reports a configured vault that Obsidian does not know', async () => {
+    delete process.env.AGENTIC_JOURNAL_PATH;
+    process.env.AGENTIC_JOURNAL_VAULT = 'Missing';
+    process.env.HOME = userTempDir;
+    delete process.env.APPDATA;
+
+    const report = await runDoctor(projectTempDir);
+
+    expect(check(report, 'User journal')).toMatchObject({ status: 'warning', detail: expect.stringContaining('Obsidian vault "Missing" not found') });
+    expect(check(report, 'Obsidian vaults')).toMatchObject({ status: 'error', detail: expect.stringContaining('configured vault "Missing" not found') });
+  });
+
+  test('formats the report as text or JSON', () => {
+    const report: DoctorReport = {
+      checks: [
+        { name: 'User journal', status: 'ok', detail: '/home/me/.private-journal' },
+        { name: 'Embeddings (user)', status: 'warning', detail: '3 missing' }
+      ],
+      warnings: 1,
+      errors: 0
+    };
+
+    expect(formatDoctorReport(report)).toBe(
+      'Journal status: 1 warning, 0 errors\n\n' +
+      '[ok]    User journal: /home/me/.private-journal\n' +
+      '[warn]  Embeddings (user): 3 missing'
+    );
+    expect(JSON.parse(formatDoctorReport(report, 'json'))).toEqual(report);
+  });
+});
@@ -0,0 +1,187 @@
+// ABOUTME: Unit tests for pluggable embedding providers and their configuration
+// ABOUTME: Tests hashing and HTTP providers, env-driven selection, and model stamping
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import {
+  HashingProvider,
+  OpenAICompatibleProvider,
+  TransformersProvider,
+  createEmbeddingProvider
+} from '../src/embedding-providers';
+import { getEmbeddingConfig } from '../src/config';
+import { EmbeddingService } from '../src/embeddings';
+import { JournalManager } from '../src/journal';
+
+describe('HashingProvider', () => {
+  test('is deterministic and normalized', async () => {
+    const provider = new HashingProvider(64);
+
+    const first = await provider.embed('Retry the flaky integration test');
+    const second = await provider.embed('Retry the flaky integration test');
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(64);
+    const norm = Math.sqrt(first.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1, 5);
+  });
+
+  test('texts sharing words are more similar than unrelated texts', async () => {
+    const provider = new HashingProvider();
+    const service = EmbeddingService.getInstance();
+
+    const a = await provider.embed('postgres connection pool exhausted');
+    const b = await provider.embed('the connection pool was exhausted again');
+    const c = await provider.embed('lovely weather for a walk');
+
+    expect(service.cosineSimilarity(a, b)).toBeGreaterThan(service.cosineSimilarity(a, c));
+  });
+
+  test('records its dimensions in the id', () => {
+    expect(new HashingProvider(128).id).toBe('hashing:128');
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('posts to the embeddings endpoint and returns the vector', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [{ embedding: [0.5, 0.5] }] })
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const provider = new OpenAICompatibleProvider('nomic-embed-text', 'http://localhost:11434/v1/', 'secret');
+    const vector = await provider.embed('hello');
+
+    expect(vector).toEqual([0.5, 0.5]);
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/embeddings', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ model: 'nomic-embed-text', input: 'hello' })
+    }));
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer secret');
+    expect(provider.id).toBe('openai:nomic-embed-text');
+  });
+
+  test('reports HTTP failures', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable'
+    }) as unknown as typeof fetch;
+
+    const provider = new OpenAICompatibleProvider('model', 'http://localhost:8080/v1');
+
+    await expect(provider.embed('hello')).rejects.toThrow('503 Service Unavailable');
+  });
+
+  test('requests configured dimensions and checks the returned vector', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [{ embedding: [0.5, 0.5, 0.5] }] })
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const provider = new OpenAICompatibleProvider('text-embedding-3-small', 'http://localhost:8080/v1', undefined, 2);
+
+    await expect(provider.embed('hello')).rejects.toThrow('has 3 dimensions but 2 were requested');
+    expect(fetchMock.mock.calls[0][1].body).toBe(JSON.stringify({ model: 'text-embedding-3-small', input: 'hello', dimensions: 2 }));
+    expect(provider.id).toBe('openai:text-embedding-3-small:2');
+  });
+});
+
+describe('getEmbeddingConfig', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_PROVIDER;
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_MODEL;
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_URL;
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_DIMENSIONS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test('defaults to the local MiniLM transformers model', () => {
+    const config = getEmbeddingConfig();
+
+    expect(config.provider).toBe('transformers');
+    expect(config.model).toBe('Xenova/all-MiniLM-L6-v2');
+    expect(createEmbeddingProvider(config)).toBeInstanceOf(TransformersProvider);
+  });
+
+  test('selects provider, model and URL from env vars', () => {
+    process.env.AGENTIC_JOURNAL_EMBEDDING_PROVIDER = 'openai';
+    process.env.AGENTIC_JOURNAL_EMBEDDING_MODEL = 'nomic-embed-text';
+    process.env.AGENTIC_JOURNAL_EMBEDDING_URL = 'http://localhost:11434/v1';
+
+    const config = getEmbeddingConfig();
+
+    expect(config).toMatchObject({
+      provider: 'openai',
+      model: 'nomic-embed-text',
+      baseUrl: 'http://localhost:11434/v1'
+    });
+    expect(createEmbeddingProvider(config).id).toBe('openai:nomic-embed-text');
+  });
+
+  test('configures hashing dimensions', () => {
+    process.env.AGENTIC_JOURNAL_EMBEDDING_PROVIDER = 'hashing';
+    process.env.AGENTIC_JOURNAL_EMBEDDING_DIMENSIONS = '256';
+
+    expect(createEmbeddingProvider(getEmbeddingConfig()).id).toBe('hashing:256');
+  });
+
+  test('rejects dimensions for the transformers provider', () => {
+    process.env.AGENTIC_JOURNAL_EMBEDDING_DIMENSIONS = '256';
+
+    expect(() => getEmbeddingConfig()).toThrow('only supported by the hashing and openai providers');
+  });
+
+  test('rejects unknown providers', () => {
+    process.env.AGENTIC_JOURNAL_EMBEDDING_PROVIDER = 'magic';
+
+    expect(() => getEmbeddingConfig()).toThrow('Unknown embedding provider "magic"');
+  });
+});
+
+describe('EmbeddingService provider selection', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  const embeddingService = EmbeddingService.getInstance();
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-user-test-'));
+  });
+
+  afterEach(async () => {
+    embeddingService.setProvider(createEmbeddingProvider(getEmbeddingConfig()));
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('records the provider model in each .embedding file', async () => {
+    embeddingService.setProvider(new HashingProvider(32));
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+
+    await journalManager.writeThoughts({ project_notes: 'Hashing provider note' });
+
+    const dayDir = path.join(projectTempDir, (await fs.readdir(projectTempDir))[0]);
+    const embeddingFile = (await fs.readdir(dayDir)).find(f => f.endsWith('.embedding'))!;
+    const embeddingData = JSON.parse(await fs.readFile(path.join(dayDir, embeddingFile), 'utf8'));
+
+    expect(embeddingData.model).toBe('hashing:32');
+    expect(embeddingData.embedding).toHaveLength(32);
+  });
+});
@@ -0,0 +1,273 @@
+// ABOUTME: Unit tests for embedding storage backends
+// ABOUTME: Tests the packed binary index, text-on-demand loading, and migration from per-file JSON
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { EmbeddingService } from '../src/embeddings';
+import { JsonEmbeddingStore, PackedEmbeddingStore } from '../src/embedding-store';
+import { JournalManager } from '../src/journal';
+import { SearchService } from '../src/search';
+import { getPackedIndexPath } from '../src/config';
+
+describe('PackedEmbeddingStore', () => {
+  let journalDir: string;
+  let store: PackedEmbeddingStore;
+  const embeddingService = EmbeddingService.getInstance();
+
+  beforeEach(async () => {
+    journalDir = await fs.mkdtemp(path.join(os.tmpdir(), 'packed-store-test-'));
+    store = new PackedEmbeddingStore(markdown => ({
+      ...embeddingService.extractSearchableText(markdown),
+      chunks: embeddingService.extractSectionChunks(markdown)
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(journalDir, { recursive: true, force: true });
+  });
+
+  async function writeEntry(name: string, body: string): Promise<string> {
+    const dayDir = path.join(journalDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    const mdPath = path.join(dayDir, `${name}.md`);
+    await fs.writeFile(mdPath, `---\ntitle: "Test"\ntimestamp: 1766413845123\n---\n\n${body}\n`, 'utf8');
+    return mdPath;
+  }
+
+  function embeddingFor(mdPath: string): Parameters<PackedEmbeddingStore['save']>[1] {
+    return {
+      embedding: [0.25, -0.5, 0.75],
+      text: 'ignored, read from markdown',
+      sections: ['Feelings'],
+      timestamp: 1766413845123,
+      path: mdPath,
+      chunks: [{ section: 'Feelings', text: 'ignored', embedding: [1, 0, 0] }],
+      model: 'hashing:3',
+      dimensions: 3,
+      extractionVersion: 2
+    };
+  }
+
+  test('round-trips vectors and reads text from the markdown', async () => {
+    const mdPath = await writeEntry('14-30-45-123456', '## Feelings\n\nCalm and focused');
+
+    await store.save(mdPath, embeddingFor(mdPath), false);
+    const loaded = await store.load(mdPath, false);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.embedding).toEqual([0.25, -0.5, 0.75]);
+    expect(loaded!.text).toBe('Calm and focused');
+    expect(loaded!.sections).toEqual(['Feelings']);
+    expect(loaded!.chunks).toEqual([{ section: 'Feelings', text: 'Calm and focused', embedding: [1, 0, 0] }]);
+    expect(loaded!.model).toBe('hashing:3');
+    expect(loaded!.extractionVersion).toBe(2);
+
+    // Everything lives in one file; no per-entry .embedding files
+    const files = await fs.readdir(path.join(journalDir, '2025-12-22'));
+    expect(files).toEqual(['14-30-45-123456.md']);
+    await expect(fs.access(path.join(journalDir, 'embeddings.pack'))).resolves.toBeUndefined();
+  });
+
+  test('is much smaller than the JSON format', async () => {
+    const vector = Array.from({ length: 384 }, (_, i) => Math.sin(i));
+    const mdPaths = await Promise.all([1, 2, 3].map(i => writeEntry(`14-30-45-00000${i}`, '## Feelings\n\nSome text')));
+
+    for (const mdPath of mdPaths) {
+      await store.save(mdPath, { ...embeddingFor(mdPath), embedding: vector, chunks: [], dimensions: 384 }, false);
+    }
+
+    const packSize = (await fs.stat(path.join(journalDir, 'embeddings.pack'))).size;
+    const jsonSize = JSON.stringify({ embedding: vector, text: 'Some text' }, null, 2).length * 3;
+    expect(packSize).toBeLessThan(jsonSize / 2);
+    expect(await store.loadAll(journalDir, false)).toHaveLength(3);
+  });
+
+  test('loadAll skips entries whose markdown is gone', async () => {
+    const kept = await writeEntry('14-30-45-000001', '## Feelings\n\nKept');
+    const removed = await writeEntry('14-30-45-000002', '## Feelings\n\nRemoved');
+    await store.save(kept, embeddingFor(kept), false);
+    await store.save(removed, embeddingFor(removed), false);
+
+    await fs.rm(removed);
+
+    const all = await store.loadAll(journalDir, false);
+    expect(all.map(e => e.path)).toEqual([kept]);
+  });
+
+  test('marks embeddings stale when the markdown sections changed', async () => {
+    const mdPath = await writeEntry('14-30-45-123456', '## Feelings\n\nCalm');
+    await store.save(mdPath, embeddingFor(mdPath), false);
+
+    await fs.writeFile(mdPath, '## Feelings\n\nCalm\n\n## Technical Insights\n\nNew section', 'utf8');
+
+    const loaded = await store.load(mdPath, false);
+    expect(loaded!.extractionVersion).toBeUndefined();
+    expect(embeddingService.isStale(loaded!)).toBe(true);
+  });
+
+  test('resolveChange ignores its own writes but reports external ones', async () => {
+    const mdPath = await writeEntry('14-30-45-123456', '## Feelings\n\nCalm');
+    await store.save(mdPath, embeddingFor(mdPath), false);
+    const packPath = path.join(journalDir, 'embeddings.pack');
+
+    expect(await store.resolveChange(packPath, journalDir, false)).toBeNull();
+    expect(await store.resolveChange(mdPath, journalDir, false)).toBeNull();
+
+    const other = new PackedEmbeddingStore(() => ({ text: '', sections: [], chunks: [] }));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await other.save(mdPath, embeddingFor(mdPath), false);
+
+    expect(await store.resolveChange(packPath, journalDir, false)).toBe('all');
+  });
+
+  test('removes single entries and orphans whose markdown is gone', async () => {
+    const kept = await writeEntry('14-30-45-000001', '## Feelings\n\nKept');
+    const removed = await writeEntry('14-30-45-000002', '## Feelings\n\nRemoved');
+    const orphaned = await writeEntry('14-30-45-000003', '## Feelings\n\nOrphaned');
+    for (const mdPath of [kept, removed, orphaned]) {
+      await store.save(mdPath, embeddingFor(mdPath), false);
+    }
+
+    await store.remove(removed, false);
+    await fs.rm(orphaned);
+
+    expect(await store.removeOrphans(journalDir, false)).toEqual([orphaned]);
+    expect(await store.load(removed, false)).toBeNull();
+
+    // A fresh store reads what was written to disk
+    const reopened = new PackedEmbeddingStore(() => ({ text: '', sections: [], chunks: [] }));
+    expect((await reopened.loadAll(journalDir, false)).map(e => e.path)).toEqual([kept]);
+  });
+});
+
+describe('Embedding storage migration', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  const embeddingService = EmbeddingService.getInstance();
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-user-test-'));
+  });
+
+  afterEach(async () => {
+    embeddingService.setStorageFormat('json');
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('moves per-file JSON embeddings into the packed index', async () => {
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    await journalManager.writeThoughts({ project_notes: 'Project entry', feelings: 'User entry' });
+
+    embeddingService.setStorageFormat('packed');
+    expect(await journalManager.migrateEmbeddingStorage()).toBe(2);
+
+    const dayDir = path.join(projectTempDir, (await fs.readdir(projectTempDir)).find(d => d !== 'embeddings.pack')!);
+    expect((await fs.readdir(dayDir)).filter(f => f.endsWith('.embedding'))).toHaveLength(0);
+
+    // Migrated embeddings are current, so nothing needs regenerating
+    expect(await journalManager.generateMissingEmbeddings()).toBe(0);
+
+    const searchService = new SearchService(projectTempDir, userTempDir);
+    const results = await searchService.listRecent();
+    expect(results.map(r => r.text).sort()).toEqual(['Project entry', 'User entry']);
+
+    // Running again finds nothing left to migrate
+    expect(await journalManager.migrateEmbeddingStorage()).toBe(0);
+  });
+
+  test('new entries are written to the packed index', async () => {
+    embeddingService.setStorageFormat('packed');
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+
+    await journalManager.writeThoughts({ project_notes: 'Packed from the start' });
+
+    expect(await fs.readdir(projectTempDir)).toContain('embeddings.pack');
+    const results = await new SearchService(projectTempDir, userTempDir).search('Packed', { mode: 'keyword' });
+    expect(results).toHaveLength(1);
+  });
+});
+
+describe('JsonEmbeddingStore', () => {
+  let journalDir: string;
+
+  beforeEach(async () => {
+    journalDir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-store-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(journalDir, { recursive: true, force: true });
+  });
+
+  test('loadAll reports entry paths from where embeddings are stored', async () => {
+    const dayDir = path.join(journalDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    await fs.writeFile(path.join(dayDir, '14-30-45-123456.embedding'), JSON.stringify({
+      embedding: [1],
+      text: 'moved between machines',
+      sections: [],
+      timestamp: 0,
+      path: '/some/other/machine/2025-12-22/14-30-45-123456.md'
+    }), 'utf8');
+
+    const all = await new JsonEmbeddingStore().loadAll(journalDir, false);
+
+    expect(all).toHaveLength(1);
+    expect(all[0].path).toBe(path.join(dayDir, '14-30-45-123456.md'));
+  });
+
+  test('removeOrphans deletes cache embeddings of removed Obsidian entries', async () => {
+    const originalEnv = { ...process.env };
+    process.env.AGENTIC_JOURNAL_VAULT = 'vault';
+    process.env.HOME = journalDir;
+    delete process.env.LOCALAPPDATA;
+
+    try {
+      const store = new JsonEmbeddingStore();
+      const vaultDir = path.join(journalDir, 'vault', 'agentic-journal');
+      const dayDir = path.join(vaultDir, '2025-12-22');
+      await fs.mkdir(dayDir, { recursive: true });
+      const kept = path.join(dayDir, '14-30-45-000001.md');
+      const deleted = path.join(dayDir, '14-30-45-000002.md');
+      await fs.writeFile(kept, 'Kept', 'utf8');
+      const embeddingData = { embedding: [1], text: '', sections: [], timestamp: 0, path: kept };
+      await store.save(kept, embeddingData, true);
+      await store.save(deleted, { ...embeddingData, path: deleted }, true);
+
+      expect(await store.removeOrphans(vaultDir, true)).toEqual([deleted]);
+      expect(await fs.readdir(path.join(journalDir, '.cache', 'private-journal', 'embeddings')))
+        .toEqual(['2025-12-22--14-30-45-000001.embedding']);
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+});
+
+describe('getPackedIndexPath', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    delete process.env.AGENTIC_JOURNAL_VAULT;
+    delete process.env.LOCALAPPDATA;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test('places the index in the journal directory', () => {
+    expect(getPackedIndexPath('/home/test/.private-journal', true)).toBe('/home/test/.private-journal/embeddings.pack');
+  });
+
+  test('places the Obsidian user index in the local cache', () => {
+    process.env.AGENTIC_JOURNAL_VAULT = 'vault';
+    process.env.HOME = '/home/test';
+
+    expect(getPackedIndexPath('/vault/agentic-journal', true)).toBe('/home/test/.cache/private-journal/embeddings/embeddings.pack');
+    expect(getPackedIndexPath('/project/.private-journal', false)).toBe('/project/.private-journal/embeddings.pack');
+  });
+});
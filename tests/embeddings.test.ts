@@ -5,10 +5,11 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 
-import { EmbeddingService } from '../src/embeddings';
+import { EmbeddingService, EXTRACTION_VERSION } from '../src/embeddings';
 import { SearchService } from '../src/search';
 import { JournalManager } from '../src/journal';
-import { getEmbeddingPathForFile } from '../src/config';
+import { getEmbeddingConfig, getEmbeddingPathForFile } from '../src/config';
+import { HashingProvider, createEmbeddingProvider } from '../src/embedding-providers';
 
 describe('Embedding and Search functionality', () => {
   let projectTempDir: string;
@@ -315,4 +316,597 @@ I'm frustrated with this search bug in Obsidian mode.`;
     expect(results[0].text).toContain('frustrated');
     expect(results[0].type).toBe('user');
   }, 60000);
-});
\ No newline at end of file
+});
+describe('Persistent search index', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  let searchService: SearchService;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'index-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'index-user-test-'));
+
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    searchService = new SearchService(projectTempDir, userTempDir);
+    journalManager.onEmbeddingSaved((embeddingData, isUserJournal) => {
+      searchService.updateIndex(embeddingData, isUserJournal ? 'user' : 'project');
+    });
+  });
+
+  afterEach(async () => {
+    searchService.unwatch();
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  async function waitFor(condition: () => Promise<boolean>, timeoutMs: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (await condition()) return;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error('Timed out waiting for condition');
+  }
+
+  test('loadIndex serves queries from memory', async () => {
+    await journalManager.writeThoughts({ project_notes: 'Indexed note about migrations' });
+
+    expect(await searchService.loadIndex()).toBe(1);
+
+    // Removing the file on disk doesn't affect the loaded index
+    const dayDir = path.join(projectTempDir, (await fs.readdir(projectTempDir))[0]);
+    const embeddingFile = (await fs.readdir(dayDir)).find(f => f.endsWith('.embedding'))!;
+    await fs.rm(path.join(dayDir, embeddingFile));
+
+    const results = await searchService.listRecent();
+    expect(results).toHaveLength(1);
+    expect(results[0].text).toContain('migrations');
+  });
+
+  test('entries written by JournalManager update the loaded index', async () => {
+    await searchService.loadIndex();
+
+    await journalManager.writeThoughts({
+      project_notes: 'Project detail',
+      feelings: 'Personal detail'
+    });
+
+    const results = await searchService.listRecent();
+    expect(results).toHaveLength(2);
+    expect(results.map(r => r.type).sort()).toEqual(['project', 'user']);
+  });
+
+  test('watch picks up embeddings added and removed outside the process', async () => {
+    await searchService.loadIndex();
+    await searchService.watch();
+
+    const dayDir = path.join(userTempDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    const mdPath = path.join(dayDir, '14-30-45-123456.md');
+    const embeddingPath = path.join(dayDir, '14-30-45-123456.embedding');
+    await fs.writeFile(embeddingPath, JSON.stringify({
+      embedding: [0.1, 0.2, 0.3, 0.4, 0.5],
+      text: 'Synced from another machine',
+      sections: ['Feelings'],
+      timestamp: 1766413845123,
+      path: mdPath
+    }), 'utf8');
+
+    await waitFor(async () => (await searchService.listRecent()).length === 1);
+
+    await fs.rm(embeddingPath);
+
+    await waitFor(async () => (await searchService.listRecent()).length === 0);
+  });
+
+  test('watch reports markdown entries that appear on disk', async () => {
+    const seen: string[] = [];
+    await searchService.watch(mdPath => seen.push(mdPath));
+
+    const dayDir = path.join(projectTempDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    const mdPath = path.join(dayDir, '14-30-45-123456.md');
+    await fs.writeFile(mdPath, '## Project Notes\n\nDropped in by sync', 'utf8');
+
+    await waitFor(async () => seen.includes(mdPath));
+  });
+
+  test('watch follows entries edited and deleted outside the process', async () => {
+    journalManager.onEmbeddingRemoved(mdPath => searchService.removeFromIndexByPath(mdPath));
+    const [entry] = await journalManager.writeThoughts({ project_notes: 'Original wording about caching' });
+    await searchService.loadIndex();
+    await searchService.watch(mdPath => {
+      journalManager.syncEntry(mdPath).catch(() => {});
+    });
+
+    const keyword = async (query: string): Promise<number> =>
+      (await searchService.search(query, { mode: 'keyword' })).length;
+
+    const markdown = await fs.readFile(entry.path, 'utf8');
+    await fs.writeFile(entry.path, markdown.replace('Original wording about caching', 'Rewritten in Obsidian about queues'), 'utf8');
+    await waitFor(async () => await keyword('queues') === 1);
+    expect(await keyword('caching')).toBe(0);
+
+    await fs.rm(entry.path);
+    await waitFor(async () => (await searchService.listRecent()).length === 0);
+    expect(await fs.readdir(path.dirname(entry.path))).toEqual([]);
+  });
+
+  test('syncEntry leaves unchanged entries alone', async () => {
+    const [entry] = await journalManager.writeThoughts({ project_notes: 'Stable note' });
+
+    expect(await journalManager.syncEntry(entry.path)).toBe(false);
+
+    await fs.appendFile(entry.path, '\nOne more line\n', 'utf8');
+    expect(await journalManager.syncEntry(entry.path)).toBe(true);
+  });
+
+  test('ensureEmbedding generates embeddings only for entries that lack one', async () => {
+    const dayDir = path.join(projectTempDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    const mdPath = path.join(dayDir, '14-30-45-123456.md');
+    await fs.writeFile(mdPath, '## Project Notes\n\nDropped in by sync', 'utf8');
+
+    expect(await journalManager.ensureEmbedding(mdPath)).toBe(true);
+    expect(await journalManager.ensureEmbedding(mdPath)).toBe(false);
+
+    const files = await fs.readdir(dayDir);
+    expect(files).toContain('14-30-45-123456.embedding');
+  });
+});
+
+describe('Section chunk embeddings', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  let searchService: SearchService;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunk-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunk-user-test-'));
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    searchService = new SearchService(projectTempDir, userTempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('extractSectionChunks returns one chunk per section', () => {
+    const embeddingService = EmbeddingService.getInstance();
+    const chunks = embeddingService.extractSectionChunks(`---
+title: "Test"
+---
+
+## Feelings
+
+Calm today.
+
+## Technical Insights
+
+WAL checkpoints matter.`);
+
+    expect(chunks).toEqual([
+      { section: 'Feelings', text: 'Calm today.' },
+      { section: 'Technical Insights', text: 'WAL checkpoints matter.' }
+    ]);
+  });
+
+  test('extractSectionChunks splits long sections into bounded chunks', () => {
+    const embeddingService = EmbeddingService.getInstance();
+    const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} ${'word '.repeat(60)}`.trim());
+    const chunks = embeddingService.extractSectionChunks(`## Feelings\n\n${paragraphs.join('\n\n')}`);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.section).toBe('Feelings');
+      expect(chunk.text.length).toBeLessThanOrEqual(800);
+    });
+    expect(chunks.map(c => c.text).join('\n\n')).toContain('Paragraph 5');
+  });
+
+  test('extractSectionChunks ignores entries without headings', () => {
+    const embeddingService = EmbeddingService.getInstance();
+    expect(embeddingService.extractSectionChunks('Just a plain entry')).toEqual([]);
+  });
+
+  test('writeThoughts stores a chunk embedding per section', async () => {
+    await journalManager.writeThoughts({
+      feelings: 'Long day of debugging',
+      technical_insights: 'WAL checkpoints matter'
+    });
+
+    const dayDir = path.join(userTempDir, (await fs.readdir(userTempDir))[0]);
+    const embeddingFile = (await fs.readdir(dayDir)).find(f => f.endsWith('.embedding'))!;
+    const embeddingData = JSON.parse(await fs.readFile(path.join(dayDir, embeddingFile), 'utf8'));
+
+    expect(embeddingData.chunks).toHaveLength(2);
+    expect(embeddingData.chunks[1].section).toBe('Technical Insights');
+    expect(embeddingData.chunks[1].text).toBe('WAL checkpoints matter');
+    expect(Array.isArray(embeddingData.chunks[1].embedding)).toBe(true);
+  });
+
+  test('search names the matching section and returns its excerpt', async () => {
+    await journalManager.writeThoughts({
+      feelings: 'Frustrated and tired after a long afternoon. '.repeat(20),
+      technical_insights: 'SQLite WAL checkpoints block writers when readers hold snapshots'
+    });
+
+    const results = await searchService.search('WAL checkpoints', { mode: 'keyword' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].section).toBe('Technical Insights');
+    expect(results[0].excerpt).toContain('WAL checkpoints');
+    expect(results[0].excerpt).not.toContain('Frustrated');
+  });
+
+  test('sections filter matches the chunk rather than the whole entry', async () => {
+    await journalManager.writeThoughts({
+      feelings: 'Frustrated and tired',
+      technical_insights: 'SQLite WAL checkpoints block writers'
+    });
+
+    const feelingsOnly = await searchService.search('WAL checkpoints', { mode: 'keyword', sections: ['feelings'] });
+    const insightsOnly = await searchService.search('WAL checkpoints', { mode: 'keyword', sections: ['technical_insights'] });
+
+    expect(feelingsOnly).toHaveLength(0);
+    expect(insightsOnly).toHaveLength(1);
+    expect(insightsOnly[0].section).toBe('Technical Insights');
+  });
+});
+
+describe('Embedding versioning', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  const embeddingService = EmbeddingService.getInstance();
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'version-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'version-user-test-'));
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  async function writeLegacyEntry(): Promise<{ mdPath: string; embeddingPath: string }> {
+    const dayDir = path.join(projectTempDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    const mdPath = path.join(dayDir, '14-30-45-123456.md');
+    const embeddingPath = path.join(dayDir, '14-30-45-123456.embedding');
+    await fs.writeFile(mdPath, `---
+title: "2:30:45 PM - December 22, 2025"
+date: 2025-12-22T14:30:45.123Z
+timestamp: 1766413845123
+---
+
+## Project Notes
+
+Legacy note about the cache layer`, 'utf8');
+    await fs.writeFile(embeddingPath, JSON.stringify({
+      embedding: [0.9, 0.1, 0.0],
+      text: 'Legacy note about the cache layer',
+      sections: ['Project Notes'],
+      timestamp: 1766413845123,
+      path: mdPath
+    }), 'utf8');
+    return { mdPath, embeddingPath };
+  }
+
+  test('new embeddings are stamped with model, dimensions and extraction version', async () => {
+    await journalManager.writeThoughts({ project_notes: 'Stamped note' });
+
+    const dayDir = path.join(projectTempDir, (await fs.readdir(projectTempDir))[0]);
+    const embeddingFile = (await fs.readdir(dayDir)).find(f => f.endsWith('.embedding'))!;
+    const embeddingData = JSON.parse(await fs.readFile(path.join(dayDir, embeddingFile), 'utf8'));
+
+    expect(embeddingData.model).toBe(embeddingService.modelId);
+    expect(embeddingData.dimensions).toBe(embeddingData.embedding.length);
+    expect(embeddingData.extractionVersion).toBe(EXTRACTION_VERSION);
+    expect(embeddingService.isStale(embeddingData)).toBe(false);
+  });
+
+  test('isStale flags unstamped embeddings and other models', () => {
+    const base = {
+      embedding: [0.1, 0.2],
+      text: 'x',
+      sections: [],
+      timestamp: 0,
+      path: '/tmp/x.md'
+    };
+
+    expect(embeddingService.isStale(base)).toBe(true);
+    expect(embeddingService.isStale({
+      ...base,
+      model: 'openai:other-model',
+      dimensions: 2,
+      extractionVersion: EXTRACTION_VERSION
+    })).toBe(true);
+    expect(embeddingService.isStale({
+      ...base,
+      model: embeddingService.modelId,
+      dimensions: 2,
+      extractionVersion: EXTRACTION_VERSION
+    })).toBe(false);
+  });
+
+  test('generateMissingEmbeddings regenerates stale embeddings once', async () => {
+    const { embeddingPath } = await writeLegacyEntry();
+
+    expect(await journalManager.generateMissingEmbeddings()).toBe(1);
+    expect(await journalManager.generateMissingEmbeddings()).toBe(0);
+
+    const embeddingData = JSON.parse(await fs.readFile(embeddingPath, 'utf8'));
+    expect(embeddingData.model).toBe(embeddingService.modelId);
+    expect(embeddingData.timestamp).toBe(1766413845123);
+    expect(embeddingData.chunks[0].section).toBe('Project Notes');
+  });
+
+  test('reindex regenerates every embedding', async () => {
+    await journalManager.writeThoughts({ project_notes: 'Fresh note', feelings: 'Fresh feeling' });
+
+    expect(await journalManager.reindex()).toBe(2);
+  });
+
+  test('search skips vector comparison for mismatched embeddings', async () => {
+    await writeLegacyEntry();
+    const searchService = new SearchService(projectTempDir, userTempDir);
+
+    const results = await searchService.search('cache layer');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].text).toContain('cache layer');
+  });
+});
+
+describe('Journal entry access', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let outsideDir: string;
+  let searchService: SearchService;
+  let mdPath: string;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'access-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'access-user-test-'));
+    outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), 'access-outside-test-'));
+    searchService = new SearchService(projectTempDir, userTempDir);
+
+    const dayDir = path.join(userTempDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    mdPath = path.join(dayDir, '14-30-45-123456.md');
+    await fs.writeFile(mdPath, '## Feelings\n\nInside the journal', 'utf8');
+    await fs.writeFile(path.join(outsideDir, 'secret.md'), 'Outside the journal', 'utf8');
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+    await fs.rm(outsideDir, { recursive: true, force: true });
+  });
+
+  test('reads entries by path or by entry reference', async () => {
+    expect(await searchService.readEntry(mdPath)).toContain('Inside the journal');
+    expect(await searchService.readEntry('user/2025-12-22/14-30-45-123456')).toContain('Inside the journal');
+    expect(await searchService.readEntry('user/2025-12-22/14-30-45-123456.md')).toContain('Inside the journal');
+  });
+
+  test('returns null for missing entries inside the journal', async () => {
+    expect(await searchService.readEntry('project/2025-12-22/10-00-00-000000')).toBeNull();
+  });
+
+  test('rejects files outside the journal directories', async () => {
+    await expect(searchService.readEntry(path.join(outsideDir, 'secret.md'))).rejects.toThrow('Access denied');
+    await expect(searchService.readEntry('/etc/passwd')).rejects.toThrow('Access denied');
+  });
+
+  test('rejects .. segments that escape the journal', async () => {
+    const escaping = path.join(userTempDir, '2025-12-22', '..', '..', path.basename(outsideDir), 'secret.md');
+
+    await expect(searchService.readEntry(escaping)).rejects.toThrow('Access denied');
+  });
+
+  test('rejects symlinks that point outside the journal', async () => {
+    const linkPath = path.join(userTempDir, '2025-12-22', '15-00-00-000000.md');
+    await fs.symlink(path.join(outsideDir, 'secret.md'), linkPath);
+
+    await expect(searchService.readEntry(linkPath)).rejects.toThrow('Access denied');
+  });
+
+  test('rejects non-markdown files inside the journal', async () => {
+    const embeddingPath = path.join(userTempDir, '2025-12-22', '14-30-45-123456.embedding');
+    await fs.writeFile(embeddingPath, '{}', 'utf8');
+
+    await expect(searchService.readEntry(embeddingPath)).rejects.toThrow('Access denied');
+  });
+
+  test('search results carry entry references', async () => {
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    await journalManager.writeThoughts({ project_notes: 'Referenced note' });
+
+    const [result] = await searchService.listRecent({ type: 'project' });
+
+    expect(result.ref).toMatch(/^project\/\d{4}-\d{2}-\d{2}\/\d{2}-\d{2}-\d{2}-\d{6}$/);
+    expect(await searchService.readEntry(result.ref)).toContain('Referenced note');
+  });
+
+  test('resolves entry IDs across project and user journals', async () => {
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    const written = await journalManager.writeThoughts({ project_notes: 'Project by ID', feelings: 'User by ID' });
+
+    expect(written.map(entry => entry.type)).toEqual(['project', 'user']);
+    expect(await searchService.readEntry(written[0].id)).toContain('Project by ID');
+    expect(await searchService.readEntry(written[1].id)).toContain('User by ID');
+
+    const results = await searchService.listRecent();
+    expect(results.map(result => result.id).sort()).toEqual(written.map(entry => entry.id).sort());
+  });
+
+  test('finds entries by ID before they have embeddings', async () => {
+    const syncedPath = path.join(userTempDir, '2025-12-22', '16-00-00-000000.md');
+    await fs.writeFile(syncedPath, '---\nid: 01JFQ8Z6X3M9K2T7V4B5N0R1CD\n---\n\n## Feelings\n\nSynced in', 'utf8');
+
+    expect(await searchService.readEntry('01JFQ8Z6X3M9K2T7V4B5N0R1CD')).toContain('Synced in');
+    expect(await searchService.readEntry('01JFQ8Z6X3M9K2T7V4B5N0R1CE')).toBeNull();
+  });
+});
+
+describe('Metadata filters', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  let searchService: SearchService;
+  const embeddingService = EmbeddingService.getInstance();
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'metadata-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'metadata-user-test-'));
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    searchService = new SearchService(projectTempDir, userTempDir);
+
+    await journalManager.writeThoughts(
+      { feelings: 'Deploy went smoothly' },
+      { project: 'git@github.com:acme/widgets.git', agent: 'claude-code:2.0.67' }
+    );
+    await journalManager.writeThoughts(
+      { technical_insights: 'Deploy scripts need retries' },
+      { project: 'git@github.com:acme/gadgets.git', agent: 'cursor:1.2.0' }
+    );
+  });
+
+  afterEach(async () => {
+    embeddingService.setStorageFormat('json');
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('embeddings carry project, agent and tags', async () => {
+    const [entry] = await searchService.listRecent({ project: 'widgets' });
+    const embedding = await embeddingService.loadEmbedding(entry.path, true);
+
+    expect(embedding?.project).toBe('git@github.com:acme/widgets.git');
+    expect(embedding?.agent).toBe('claude-code:2.0.67');
+    expect(embedding?.tags).toEqual(['agentic-journal', 'feelings']);
+  });
+
+  test('filters searches and listings by project and agent', async () => {
+    const byProject = await searchService.search('deploy', { mode: 'keyword', project: 'WIDGETS' });
+    expect(byProject).toHaveLength(1);
+    expect(byProject[0].text).toContain('smoothly');
+
+    const byAgent = await searchService.listRecent({ agent: 'cursor' });
+    expect(byAgent).toHaveLength(1);
+    expect(byAgent[0].text).toContain('retries');
+
+    expect(await searchService.listRecent({ project: 'widgets', agent: 'cursor' })).toHaveLength(0);
+  });
+
+  test('requires every requested tag', async () => {
+    expect(await searchService.listRecent({ tags: ['agentic-journal'] })).toHaveLength(2);
+    expect(await searchService.listRecent({ tags: ['#Technical-Insights'] })).toHaveLength(1);
+    expect(await searchService.listRecent({ tags: ['feelings', 'technical-insights'] })).toHaveLength(0);
+  });
+
+  test('filters by exact session', async () => {
+    await journalManager.writeThoughts({ feelings: 'First in session' }, { session: 'session-a' });
+    await journalManager.writeThoughts({ project_notes: 'Second in session' }, { session: 'session-a' });
+    await journalManager.writeThoughts({ feelings: 'Other session' }, { session: 'session-ab' });
+
+    const results = await searchService.listRecent({ session: 'session-a' });
+    expect(results.map(result => result.text).sort()).toEqual([
+      expect.stringContaining('First in session'),
+      expect.stringContaining('Second in session')
+    ]);
+    expect(results.every(result => result.session === 'session-a')).toBe(true);
+  });
+
+  test('packed embeddings read metadata from the markdown', async () => {
+    embeddingService.setStorageFormat('packed');
+    await journalManager.writeThoughts({ feelings: 'Packed metadata' }, { project: 'acme/packed' });
+
+    const results = await new SearchService(projectTempDir, userTempDir).listRecent({ project: 'packed', tags: ['feelings'] });
+    expect(results.map(result => result.text)).toEqual([expect.stringContaining('Packed metadata')]);
+  });
+});
+
+describe('Related entries', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  let searchService: SearchService;
+  const embeddingService = EmbeddingService.getInstance();
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'related-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'related-user-test-'));
+    // Hashing vectors reflect shared words, so similarity is meaningful here
+    embeddingService.setProvider(new HashingProvider(256));
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    searchService = new SearchService(projectTempDir, userTempDir);
+  });
+
+  afterEach(async () => {
+    embeddingService.setProvider(createEmbeddingProvider(getEmbeddingConfig()));
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('ranks entries by similarity and leaves out the entry itself', async () => {
+    const [source] = await journalManager.writeThoughts({ technical_insights: 'Postgres connection pool exhausted under load' });
+    await journalManager.writeThoughts({ technical_insights: 'Connection pool for Postgres sized too small under load' });
+    await journalManager.writeThoughts({ feelings: 'Happy about the new keyboard shortcuts' });
+
+    const results = await searchService.findRelated(source.id, { minScore: 0 });
+
+    expect(results!.map(result => result.id)).not.toContain(source.id);
+    expect(results![0].excerpt).toContain('Connection pool for Postgres');
+    expect(results![0].score).toBeGreaterThan(results![1].score);
+  });
+
+  test('restricts related entries by journal and section', async () => {
+    const [source] = await journalManager.writeThoughts({ project_notes: 'Retry logic for flaky deploys' });
+    await journalManager.writeThoughts({ technical_insights: 'Retry logic hides flaky deploys', feelings: 'Tired of flaky deploys' });
+
+    const projectOnly = await searchService.findRelated(source.path, { type: 'project' });
+    expect(projectOnly).toEqual([]);
+
+    const [related] = (await searchService.findRelated(source.path, { sections: ['feelings'] }))!;
+    expect(related.section).toBe('Feelings');
+  });
+
+  test('leaves out the entry itself when the journal is a symlink', async () => {
+    const linkDir = path.join(userTempDir, 'project-link');
+    await fs.symlink(projectTempDir, linkDir);
+    const linkedJournal = new JournalManager(linkDir, userTempDir);
+    const linkedSearch = new SearchService(linkDir, userTempDir);
+
+    const [source] = await linkedJournal.writeThoughts({ project_notes: 'Retry logic for flaky deploys' });
+    await linkedJournal.writeThoughts({ project_notes: 'Retry logic hides flaky deploys' });
+    const results = await linkedSearch.findRelated(source.id, { minScore: 0 });
+    expect(results!.map(result => result.id)).not.toContain(source.id);
+    expect(results).toHaveLength(1);
+
+    // Entries written before IDs existed are matched by real path
+    const legacyPath = path.join(path.dirname(source.path), '09-00-00-000000.md');
+    await fs.writeFile(legacyPath, '## Project Notes\n\nRetry logic for flaky deploys, again', 'utf8');
+    await linkedJournal.generateMissingEmbeddings();
+    const legacyRef = `project/${path.basename(path.dirname(legacyPath))}/09-00-00-000000`;
+    const legacyResults = await linkedSearch.findRelated(legacyRef, { minScore: 0 });
+    expect(legacyResults!.map(result => result.path)).not.toContain(legacyPath);
+    expect(legacyResults).toHaveLength(2);
+  });
+
+  test('reports missing entries and entries without embeddings', async () => {
+    expect(await searchService.findRelated('01JFQ8Z6X3M9K2T7V4B5N0R1CD')).toBeNull();
+
+    const dayDir = path.join(userTempDir, '2025-12-22');
+    await fs.mkdir(dayDir, { recursive: true });
+    await fs.writeFile(path.join(dayDir, '16-00-00-000000.md'), '## Feelings\n\nNo embedding yet', 'utf8');
+    await expect(searchService.findRelated('user/2025-12-22/16-00-00-000000')).rejects.toThrow('has no embedding yet');
+  });
+});
@@ -0,0 +1,145 @@
+// ABOUTME: Unit tests for encryption at rest of the user journal
+// ABOUTME: Tests sealing, transparent decryption in journal, search and embeddings, and migration
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { openBuffer, openEntry, sealBuffer, sealEntry, isSealedEntry } from '../src/encryption';
+import { EmbeddingService } from '../src/embeddings';
+import { JournalManager } from '../src/journal';
+import { SearchService } from '../src/search';
+
+describe('Encryption at rest', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+  const embeddingService = EmbeddingService.getInstance();
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encryption-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encryption-user-test-'));
+    originalEnv = { ...process.env };
+    delete process.env.AGENTIC_JOURNAL_KEYFILE;
+    process.env.AGENTIC_JOURNAL_KEY = 'correct horse battery staple';
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    embeddingService.setStorageFormat('json');
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  async function findFile(dir: string, extension: string): Promise<string> {
+    const dayDir = path.join(dir, (await fs.readdir(dir)).find(name => /^\d{4}-\d{2}-\d{2}$/.test(name))!);
+    return path.join(dayDir, (await fs.readdir(dayDir)).find(name => name.endsWith(extension))!);
+  }
+
+  test('round-trips data and rejects the wrong key', () => {
+    const sealed = sealBuffer(Buffer.from('secret', 'utf8'));
+    expect(sealed.toString('utf8')).not.toContain('secret');
+    expect(openBuffer(sealed).toString('utf8')).toBe('secret');
+
+    process.env.AGENTIC_JOURNAL_KEY = 'wrong key';
+    expect(() => openBuffer(sealed)).toThrow('wrong key or corrupted file');
+
+    delete process.env.AGENTIC_JOURNAL_KEY;
+    expect(() => openBuffer(sealed)).toThrow('set AGENTIC_JOURNAL_KEY or AGENTIC_JOURNAL_KEYFILE');
+  });
+
+  test('keeps frontmatter readable and encrypts the body', () => {
+    const markdown = '---\nid: 01JFQ8Z6X3M9K2T7V4B5N0R1CD\ntimestamp: 1\n---\n\n## Feelings\n\nNervous about the demo\n';
+
+    const sealed = sealEntry(markdown);
+
+    expect(isSealedEntry(sealed)).toBe(true);
+    expect(sealed).toContain('id: 01JFQ8Z6X3M9K2T7V4B5N0R1CD');
+    expect(sealed).not.toContain('Nervous');
+    expect(openEntry(sealed)).toBe(markdown);
+    expect(openEntry(markdown)).toBe(markdown);
+  });
+
+  test('reads a key from a keyfile', async () => {
+    delete process.env.AGENTIC_JOURNAL_KEY;
+    const keyFile = path.join(userTempDir, 'journal.key');
+    await fs.writeFile(keyFile, 'key from file\n', 'utf8');
+    process.env.AGENTIC_JOURNAL_KEYFILE = keyFile;
+
+    const sealed = sealBuffer(Buffer.from('secret', 'utf8'));
+    process.env.AGENTIC_JOURNAL_KEY = 'key from file';
+    expect(openBuffer(sealed).toString('utf8')).toBe('secret');
+  });
+
+  test('encrypts user entries and embeddings but not project notes', async () => {
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    const [project, user] = await journalManager.writeThoughts({
+      project_notes: 'Plain project note',
+      feelings: 'Private feeling about deadlines'
+    });
+
+    expect(await fs.readFile(project.path, 'utf8')).toContain('Plain project note');
+    expect(await fs.readFile(user.path, 'utf8')).not.toContain('deadlines');
+    expect(await fs.readFile(user.path.replace(/\.md$/, '.embedding'), 'utf8')).not.toContain('deadlines');
+
+    const searchService = new SearchService(projectTempDir, userTempDir);
+    expect(await searchService.readEntry(user.id)).toContain('Private feeling about deadlines');
+    const results = await searchService.search('deadlines', { mode: 'keyword' });
+    expect(results.map(result => result.id)).toEqual([user.id]);
+
+    // Amending keeps the entry encrypted
+    await journalManager.amendEntry(user.path, { mode: 'append', content: 'Deadline moved' });
+    expect(await fs.readFile(user.path, 'utf8')).not.toContain('Deadline moved');
+    expect(await searchService.readEntry(user.id)).toContain('Deadline moved');
+  });
+
+  test('keeps amended entries encrypted when the user journal is a symlink', async () => {
+    const linkDir = path.join(projectTempDir, 'user-link');
+    await fs.symlink(userTempDir, linkDir);
+    const journalManager = new JournalManager(path.join(projectTempDir, 'journal'), linkDir);
+    const [user] = await journalManager.writeThoughts({ feelings: 'Private feeling about deadlines' });
+
+    // Tools resolve entries to their real path
+    const realPath = await fs.realpath(user.path);
+    await journalManager.amendEntry(realPath, { mode: 'append', content: 'Deadline moved' });
+
+    const markdown = await fs.readFile(realPath, 'utf8');
+    expect(isSealedEntry(markdown)).toBe(true);
+    expect(markdown).not.toContain('Deadline moved');
+    expect(await fs.readFile(realPath.replace(/\.md$/, '.embedding'), 'utf8')).not.toContain('Deadline moved');
+    expect(await new SearchService(path.join(projectTempDir, 'journal'), linkDir).readEntry(user.id)).toContain('Deadline moved');
+  });
+
+  test('seals the packed index of the user journal', async () => {
+    embeddingService.setStorageFormat('packed');
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    await journalManager.writeThoughts({ feelings: 'Packed and private' });
+
+    const pack = await fs.readFile(path.join(userTempDir, 'embeddings.pack'));
+    expect(pack.subarray(0, 4).toString('ascii')).toBe('PJX1');
+
+    const results = await new SearchService(projectTempDir, userTempDir).search('private', { mode: 'keyword', type: 'user' });
+    expect(results).toHaveLength(1);
+  });
+
+  test('migrates an existing plaintext user journal', async () => {
+    delete process.env.AGENTIC_JOURNAL_KEY;
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    await journalManager.writeThoughts({ user_context: 'Likes short PR descriptions' });
+    const mdPath = await findFile(userTempDir, '.md');
+    expect(await fs.readFile(mdPath, 'utf8')).toContain('short PR');
+
+    await expect(journalManager.encryptUserJournal()).rejects.toThrow('No encryption key configured');
+
+    process.env.AGENTIC_JOURNAL_KEY = 'correct horse battery staple';
+    expect(await journalManager.encryptUserJournal()).toBe(1);
+    expect(await journalManager.encryptUserJournal()).toBe(0);
+
+    expect(await fs.readFile(mdPath, 'utf8')).not.toContain('short PR');
+    expect(await fs.readFile(await findFile(userTempDir, '.embedding'), 'utf8')).not.toContain('short PR');
+    expect(await new SearchService(projectTempDir, userTempDir).readEntry(mdPath)).toContain('Likes short PR descriptions');
+
+    // Embeddings survive migration, so nothing needs regenerating
+    expect(await journalManager.generateMissingEmbeddings()).toBe(0);
+  });
+});
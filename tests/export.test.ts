@@ -0,0 +1,134 @@
+// ABOUTME: Unit tests for exporting the journal to markdown, JSON Lines and HTML
+// ABOUTME: Tests entry parsing, filters and the files each format writes
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { JournalManager } from '../src/journal';
+import { SearchService } from '../src/search';
+import { parseFrontmatter } from '../src/frontmatter';
+import { JournalExporter, parseExportFormat, renderHtmlSite, renderMarkdown, toExportedEntry } from '../src/export';
+
+describe('Journal export', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let outputDir: string;
+  let journalManager: JournalManager;
+  let exporter: JournalExporter;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-user-test-'));
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-output-test-'));
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    exporter = new JournalExporter(new SearchService(projectTempDir, userTempDir));
+  });
+
+  afterEach(async () => {
+    for (const dir of [projectTempDir, userTempDir, outputDir]) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('reads metadata and sections of a written entry', async () => {
+    const [written] = await journalManager.writeThoughts(
+      { feelings: 'Calm.', technical_insights: 'Use WAL mode.' },
+      { project: 'acme/widgets', agent: 'claude-code', session: 'session-1' }
+    );
+    const markdown = await fs.readFile(written.path, 'utf8');
+    const frontmatter = parseFrontmatter(markdown).data;
+
+    const entry = toExportedEntry(markdown, 'user/2025-12-22/14-30-45-123456', 'user', 0);
+
+    expect(entry).toEqual({
+      id: written.id,
+      ref: 'user/2025-12-22/14-30-45-123456',
+      type: 'user',
+      date: new Date(frontmatter.timestamp as number).toISOString(),
+      title: frontmatter.title,
+      project: 'acme/widgets',
+      agent: 'claude-code',
+      session: 'session-1',
+      tags: ['agentic-journal', 'feelings', 'technical-insights'],
+      frontmatter,
+      sections: [
+        { heading: 'Feelings', text: 'Calm.' },
+        { heading: 'Technical Insights', text: 'Use WAL mode.' }
+      ]
+    });
+    expect(entry.title).toMatch(/^\d{1,2}:\d{2}:\d{2} [AP]M - \w+ \d{1,2}, \d{4}$/);
+  });
+
+  test('exports entries that have no embedding yet', async () => {
+    const [indexed] = await journalManager.writeThoughts({ project_notes: 'Indexed note' });
+    const [unindexed] = await journalManager.writeThoughts({ project_notes: 'Synced from another machine' });
+    await fs.rm(unindexed.path.replace(/\.md$/, '.embedding'));
+
+    const entries = await exporter.collect();
+
+    expect(entries.map(entry => entry.id)).toEqual([indexed.id, unindexed.id]);
+    expect(entries[1].sections).toEqual([{ heading: 'Project Notes', text: 'Synced from another machine' }]);
+  });
+
+  test('writes JSON Lines filtered by journal and section, keeping only those sections', async () => {
+    await journalManager.writeThoughts({ project_notes: 'Project only', feelings: 'Private feeling', technical_insights: 'Shareable insight' });
+
+    const output = path.join(outputDir, 'journal.jsonl');
+    const result = await exporter.export('jsonl', output, { type: 'user', sections: ['technical_insights'] });
+
+    expect(result).toEqual({ entries: 1, files: [output] });
+    const lines = (await fs.readFile(output, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    const record = JSON.parse(lines[0]);
+    expect(record.type).toBe('user');
+    expect(record.sections).toEqual([{ heading: 'Technical Insights', text: 'Shareable insight' }]);
+    expect(record.frontmatter.tags).toContain('technical-insights');
+  });
+
+  test('filters by project and date range', async () => {
+    await journalManager.writeThoughts({ project_notes: 'Widgets note' }, { project: 'acme/widgets' });
+    await journalManager.writeThoughts({ project_notes: 'Gadgets note' }, { project: 'acme/gadgets' });
+
+    expect((await exporter.collect({ project: 'widgets' })).map(entry => entry.sections[0].text)).toEqual(['Widgets note']);
+    expect(await exporter.collect({ dateRange: { end: new Date(2000, 0, 1) } })).toEqual([]);
+  });
+
+  test('renders a combined markdown file', async () => {
+    await journalManager.writeThoughts({ feelings: 'First' }, { project: 'acme/widgets' });
+    const output = path.join(outputDir, 'nested', 'journal.md');
+
+    await exporter.export('markdown', output);
+
+    const markdown = await fs.readFile(output, 'utf8');
+    expect(markdown).toMatch(/^# Journal export\n\n1 entry\n\n---\n\n## \d{1,2}:\d{2}:\d{2} [AP]M - /);
+    expect(markdown).toContain('*user · acme/widgets · #agentic-journal #feelings*');
+    expect(markdown).toContain('### Feelings\n\nFirst');
+  });
+
+  test('builds an HTML site with a date index and escaped text', async () => {
+    await journalManager.writeThoughts({ feelings: '<script>alert(1)</script>' });
+    await journalManager.writeThoughts({ feelings: 'Fine' });
+    const [first, second] = await exporter.collect();
+    const files = renderHtmlSite([
+      { ...first, date: new Date(2025, 11, 22, 9).toISOString(), title: 'Morning' },
+      { ...second, date: new Date(2025, 11, 23, 9).toISOString() }
+    ]);
+
+    expect(Object.keys(files)).toEqual(['index.html', 'days/2025-12-23.html', 'days/2025-12-22.html']);
+    expect(files['index.html'].indexOf('2025-12-23')).toBeLessThan(files['index.html'].indexOf('2025-12-22'));
+    expect(files['index.html']).toContain('<a href="days/2025-12-22.html#entry-1">Morning</a>');
+    expect(files['index.html']).toContain(`<a href="days/2025-12-23.html#entry-1">${second.title}</a>`);
+    expect(files['days/2025-12-22.html']).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(files['days/2025-12-22.html']).not.toContain('<script>');
+
+    await exporter.export('html', outputDir, { type: 'project' });
+    expect(await fs.readFile(path.join(outputDir, 'index.html'), 'utf8')).toContain('0 entries');
+  });
+
+  test('rejects unknown formats', () => {
+    expect(parseExportFormat('jsonl')).toBe('jsonl');
+    expect(() => parseExportFormat('pdf')).toThrow('Export format must be one of: markdown, jsonl, html');
+    expect(renderMarkdown([])).toBe('# Journal export\n\n0 entries\n');
+  });
+});
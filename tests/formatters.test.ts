@@ -0,0 +1,92 @@
+// ABOUTME: Unit tests for rendering search and listing results
+// ABOUTME: Tests the text rendering and the JSON serialization of results
+
+import { formatRecentEntries, formatSearchResults, formatSessionEntries, groupResultsBySession, parseResultFormat } from '../src/formatters';
+import { SearchResult } from '../src/search';
+
+describe('Result formatters', () => {
+  const result: SearchResult = {
+    id: '01JFQ8Z6X3M9K2T7V4B5N0R1CD',
+    path: '/journal/2025-12-22/14-30-45-123456.md',
+    ref: 'user/2025-12-22/14-30-45-123456',
+    score: 0.87654,
+    text: 'Full entry text',
+    sections: ['Feelings', 'Technical Insights'],
+    section: 'Technical Insights',
+    timestamp: Date.UTC(2025, 11, 22, 14, 30, 45),
+    excerpt: 'Retries hide flaky deploys',
+    type: 'user',
+    project: 'acme/widgets',
+    agent: 'claude-code:2.0.67',
+    session: '01JFQ8Z6X3M9K2T7V4B5N0R1CE',
+    tags: ['agentic-journal', 'feelings']
+  };
+
+  test('renders search results as text', () => {
+    const text = formatSearchResults([result]);
+
+    expect(text).toContain('Found 1 relevant entries:');
+    expect(text).toContain('1. [Score: 0.877]');
+    expect(text).toContain('Matched section: Technical Insights');
+    expect(text).toContain('Project: acme/widgets');
+    expect(text).toContain('ID: 01JFQ8Z6X3M9K2T7V4B5N0R1CD');
+    expect(text).toContain('Entry: user/2025-12-22/14-30-45-123456');
+    expect(formatSearchResults([])).toBe('No relevant entries found.');
+  });
+
+  test('serializes results as JSON without the full text', () => {
+    const { results } = JSON.parse(formatSearchResults([result], 'json'));
+
+    expect(results).toEqual([{
+      id: result.id,
+      ref: result.ref,
+      path: result.path,
+      type: 'user',
+      score: 0.87654,
+      timestamp: result.timestamp,
+      date: '2025-12-22T14:30:45.000Z',
+      sections: ['Feelings', 'Technical Insights'],
+      section: 'Technical Insights',
+      project: 'acme/widgets',
+      agent: 'claude-code:2.0.67',
+      session: '01JFQ8Z6X3M9K2T7V4B5N0R1CE',
+      tags: ['agentic-journal', 'feelings'],
+      excerpt: 'Retries hide flaky deploys'
+    }]);
+  });
+
+  test('includes the listing period', () => {
+    expect(formatRecentEntries([result], 'last 7 days')).toContain('Recent entries (last 7 days):');
+    expect(formatRecentEntries([], 'last 7 days')).toBe('No entries found (last 7 days).');
+    expect(JSON.parse(formatRecentEntries([], 'last 7 days', 'json'))).toEqual({ period: 'last 7 days', results: [] });
+  });
+
+  test('groups listings by session', () => {
+    const sameSession = { ...result, ref: 'project/2025-12-22/14-30-45-123456', type: 'project' as const };
+    const noSession = { ...result, ref: 'user/2025-12-21/09-00-00-000000', session: undefined };
+
+    const groups = groupResultsBySession([result, noSession, sameSession]);
+    expect(groups.map(group => [group.session, group.results.length])).toEqual([
+      ['01JFQ8Z6X3M9K2T7V4B5N0R1CE', 2],
+      [undefined, 1]
+    ]);
+
+    const text = formatRecentEntries([result, noSession, sameSession], 'last 7 days', 'text', true);
+    expect(text).toContain('Session 01JFQ8Z6X3M9K2T7V4B5N0R1CE (2 entries)');
+    expect(text).toContain('No session (1 entry)');
+
+    const { sessions } = JSON.parse(formatRecentEntries([noSession], 'last 7 days', 'json', true));
+    expect(sessions).toEqual([{ session: null, results: [expect.objectContaining({ ref: noSession.ref })] }]);
+  });
+
+  test('renders the entries of one session', () => {
+    expect(formatSessionEntries([result], 'abc')).toContain('Entries from session abc:');
+    expect(formatSessionEntries([], 'abc')).toBe('No entries found for session abc.');
+  });
+
+  test('validates the requested format', () => {
+    expect(parseResultFormat(undefined)).toBe('text');
+    expect(parseResultFormat('json')).toBe('json');
+    expect(() => parseResultFormat('xml')).toThrow("format must be 'text' or 'json'");
+  });
+});
@@ -0,0 +1,116 @@
+// ABOUTME: Unit tests for YAML frontmatter serialization and parsing
+// ABOUTME: Tests quoting of unsafe values, round-trips, and the parsed JournalEntry fields
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { formatWithFrontmatter, parseFrontmatter, parseJournalEntry, serializeFrontmatter } from '../src/frontmatter';
+import { JournalManager } from '../src/journal';
+
+describe('Frontmatter', () => {
+  test('serializes in the journal layout', () => {
+    expect(serializeFrontmatter({
+      title: '2:30:45 PM - May 31, 2025',
+      date: '2025-05-31T14:30:45.123Z',
+      timestamp: 1748701845123,
+      agent: 'claude-code:1.0.0',
+      skipped: undefined,
+      tags: ['agentic-journal', 'feelings']
+    })).toBe([
+      '---',
+      'title: "2:30:45 PM - May 31, 2025"',
+      'date: 2025-05-31T14:30:45.123Z',
+      'timestamp: 1748701845123',
+      'agent: claude-code:1.0.0',
+      'tags:',
+      '  - agentic-journal',
+      '  - feelings',
+      '---',
+      ''
+    ].join('\n'));
+  });
+
+  test('round-trips values that break hand-written YAML', () => {
+    const data = {
+      project: 'C:\\work\\repo #2',
+      agent: 'agent: with colon',
+      title: '"quoted" and \'single\'',
+      note: '- starts like a list',
+      multiline: 'line one\nline two',
+      numeric: '0123'
+    };
+
+    const markdown = formatWithFrontmatter(data, '\n## Feelings\n\nCalm\n');
+    const parsed = parseFrontmatter(markdown);
+
+    expect(parsed.data).toEqual(data);
+    expect(parsed.body).toBe('\n## Feelings\n\nCalm\n');
+  });
+
+  test('rejects frontmatter that is not a mapping', () => {
+    expect(() => parseFrontmatter('---\ntitle: [unclosed\n---\nBody')).toThrow('Invalid frontmatter');
+    expect(() => parseFrontmatter('---\n- a list\n---\nBody')).toThrow('expected key/value pairs');
+  });
+
+  test('parses journal entries', () => {
+    const entry = parseJournalEntry(formatWithFrontmatter({
+      id: '01JFQ8Z6X3M9K2T7V4B5N0R1CD',
+      title: 'Entry',
+      date: '2025-05-31T14:30:45.123Z',
+      timestamp: 1748701845123,
+      project: 'repo',
+      agent: 'agent:1',
+      tags: ['agentic-journal']
+    }, '\nBody\n'), '/journal/2025-05-31/14-30-45-123456.md');
+
+    expect(entry).toEqual({
+      content: '\nBody\n',
+      timestamp: new Date(1748701845123),
+      filePath: '/journal/2025-05-31/14-30-45-123456.md',
+      id: '01JFQ8Z6X3M9K2T7V4B5N0R1CD',
+      title: 'Entry',
+      date: '2025-05-31T14:30:45.123Z',
+      project: 'repo',
+      agent: 'agent:1',
+      tags: ['agentic-journal']
+    });
+  });
+
+  test('falls back to the date, and tolerates missing or broken frontmatter', () => {
+    expect(parseJournalEntry('---\ndate: 2025-05-31T14:30:45.123Z\n---\nBody', '').timestamp)
+      .toEqual(new Date('2025-05-31T14:30:45.123Z'));
+    expect(parseJournalEntry('Just text', 'a.md')).toMatchObject({ content: 'Just text', tags: [], timestamp: undefined });
+    expect(parseJournalEntry('---\ntitle: [unclosed\n---\nBody', 'a.md')).toMatchObject({ content: 'Body', tags: [] });
+  });
+});
+
+describe('Frontmatter in written entries', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'frontmatter-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'frontmatter-user-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('keeps project and agent values intact', async () => {
+    const journalManager = new JournalManager(projectTempDir, userTempDir);
+    const [entry] = await journalManager.writeThoughts(
+      { feelings: 'Fine' },
+      { project: 'C:\\Users\\me\\my project #1', agent: 'client: beta' }
+    );
+
+    const parsed = parseJournalEntry(await fs.readFile(entry.path, 'utf8'), entry.path);
+
+    expect(parsed.project).toBe('C:\\Users\\me\\my project #1');
+    expect(parsed.agent).toBe('client: beta');
+    expect(parsed.id).toBe(entry.id);
+    expect(parsed.tags).toEqual(['agentic-journal', 'feelings']);
+  });
+});
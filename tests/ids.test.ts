@@ -0,0 +1,33 @@
+// ABOUTME: Unit tests for journal entry identifiers
+// ABOUTME: Tests ULID generation, validation and reading IDs from frontmatter
+
+import { generateEntryId, isEntryId, readEntryId } from '../src/ids';
+
+describe('Entry IDs', () => {
+  test('generates valid, unique ULIDs', () => {
+    const ids = new Set(Array.from({ length: 100 }, () => generateEntryId()));
+
+    expect(ids.size).toBe(100);
+    ids.forEach(id => expect(isEntryId(id)).toBe(true));
+  });
+
+  test('IDs sort by creation time', () => {
+    const earlier = generateEntryId(Date.UTC(2025, 0, 1));
+    const later = generateEntryId(Date.UTC(2025, 11, 22));
+
+    expect(earlier < later).toBe(true);
+    expect(generateEntryId(0).slice(0, 10)).toBe('0000000000');
+  });
+
+  test('rejects references and paths', () => {
+    expect(isEntryId('user/2025-12-22/14-30-45-123456')).toBe(false);
+    expect(isEntryId('01jfq8z6x3m9k2t7v4b5n0r1cd')).toBe(false);
+    expect(isEntryId('01JFQ8Z6X3M9K2T7V4B5N0R1CI')).toBe(false); // I is not in the alphabet
+  });
+
+  test('reads the ID from frontmatter only', () => {
+    expect(readEntryId('---\ntitle: "x"\nid: 01JFQ8Z6X3M9K2T7V4B5N0R1CD\n---\n\nBody')).toBe('01JFQ8Z6X3M9K2T7V4B5N0R1CD');
+    expect(readEntryId('---\ntitle: "x"\n---\n\nid: 01JFQ8Z6X3M9K2T7V4B5N0R1CD')).toBeUndefined();
+    expect(readEntryId('No frontmatter')).toBeUndefined();
+  });
+});
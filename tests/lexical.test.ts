@@ -0,0 +1,125 @@
+// ABOUTME: Unit tests for the BM25 keyword index and hybrid search modes
+// ABOUTME: Tests tokenization of identifiers, scoring, and keyword/hybrid ranking in SearchService
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { LexicalIndex, tokenize } from '../src/lexical';
+import { SearchService } from '../src/search';
+import { JournalManager } from '../src/journal';
+
+describe('tokenize', () => {
+  test('keeps compound identifiers whole and adds their parts', () => {
+    const tokens = tokenize('Hit ERR_OSSL_EVP_UNSUPPORTED while fixing JIRA-1234 in config.ts');
+
+    expect(tokens).toContain('err_ossl_evp_unsupported');
+    expect(tokens).toContain('jira-1234');
+    expect(tokens).toContain('jira');
+    expect(tokens).toContain('1234');
+    expect(tokens).toContain('config.ts');
+    expect(tokens).toContain('config');
+  });
+
+  test('lowercases terms', () => {
+    expect(tokenize('generateEmbedding')).toEqual(['generateembedding']);
+  });
+});
+
+describe('LexicalIndex', () => {
+  test('scores only documents containing query terms', () => {
+    const index = new LexicalIndex();
+    index.add('a', 'The build failed with TS2345 in the parser');
+    index.add('b', 'Feeling good about the refactor today');
+
+    const scores = index.score('TS2345');
+
+    expect(scores.has('a')).toBe(true);
+    expect(scores.has('b')).toBe(false);
+  });
+
+  test('ranks rarer terms and higher frequency above common ones', () => {
+    const index = new LexicalIndex();
+    index.add('a', 'cache cache invalidation bug');
+    index.add('b', 'cache warming strategy');
+    index.add('c', 'unrelated notes about lunch');
+
+    const scores = index.score('cache invalidation');
+
+    expect(scores.get('a')!).toBeGreaterThan(scores.get('b')!);
+  });
+
+  test('normalizedScore maps the best match to 1', () => {
+    const index = new LexicalIndex();
+    index.add('a', 'retry logic for webhooks');
+    index.add('b', 'webhooks webhooks webhooks retry');
+
+    const scores = index.normalizedScore('webhooks retry');
+    const values = Array.from(scores.values());
+
+    expect(Math.max(...values)).toBeCloseTo(1, 5);
+    values.forEach(value => expect(value).toBeLessThanOrEqual(1));
+  });
+
+  test('remove drops a document from future scoring', () => {
+    const index = new LexicalIndex();
+    index.add('a', 'deadlock in the scheduler');
+    index.add('b', 'deadlock in the worker pool');
+
+    index.remove('a');
+
+    expect(index.size).toBe(1);
+    expect(Array.from(index.score('deadlock').keys())).toEqual(['b']);
+  });
+});
+
+describe('SearchService search modes', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  let searchService: SearchService;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lexical-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lexical-user-test-'));
+
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    searchService = new SearchService(projectTempDir, userTempDir);
+
+    await journalManager.writeThoughts({
+      project_notes: 'Deploy failed with error E_CONN_RESET_42 from the payments gateway'
+    });
+    await journalManager.writeThoughts({
+      project_notes: 'The payments gateway retries are configured in the worker'
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('keyword mode only returns entries containing the identifier', async () => {
+    const results = await searchService.search('E_CONN_RESET_42', { mode: 'keyword' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].text).toContain('E_CONN_RESET_42');
+    expect(results[0].score).toBeCloseTo(1, 5);
+  });
+
+  test('hybrid mode ranks the exact identifier match first', async () => {
+    const results = await searchService.search('E_CONN_RESET_42', { mode: 'hybrid' });
+
+    expect(results.length).toBe(2);
+    expect(results[0].text).toContain('E_CONN_RESET_42');
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  test('semantic mode ignores keyword matches', async () => {
+    const results = await searchService.search('E_CONN_RESET_42', { mode: 'semantic' });
+
+    // The mocked model returns identical vectors, so every entry ties
+    expect(results.length).toBe(2);
+    expect(results[0].score).toBeCloseTo(results[1].score, 5);
+  });
+});
@@ -0,0 +1,68 @@
+// ABOUTME: Unit tests for the guided reflection prompts
+// ABOUTME: Tests prompt listing, argument validation and journal context in prompt messages
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { JournalManager } from '../src/journal';
+import { SearchService } from '../src/search';
+import { JournalPrompts } from '../src/prompts';
+
+describe('Journal prompts', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  let prompts: JournalPrompts;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-user-test-'));
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    prompts = new JournalPrompts(new SearchService(projectTempDir, userTempDir));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('lists the reflection prompts with their arguments', () => {
+    const listed = prompts.list();
+
+    expect(listed.map(prompt => prompt.name)).toEqual([
+      'end_of_session_reflection',
+      'retro_on_bug',
+      'summarize_user_preferences',
+      'pre_task_recall'
+    ]);
+    expect(listed.find(prompt => prompt.name === 'retro_on_bug')!.arguments).toEqual([
+      expect.objectContaining({ name: 'bug', required: true })
+    ]);
+  });
+
+  test('fills prompts with entries from the journal', async () => {
+    await journalManager.writeThoughts({
+      technical_insights: 'Flaky deploys were caused by missing retries',
+      user_context: 'Prefers small, focused pull requests'
+    });
+
+    const reflection = await prompts.get('end_of_session_reflection', { summary: 'Fixed the deploy script' });
+    expect(reflection.messages).toHaveLength(1);
+    expect(reflection.messages[0].role).toBe('user');
+    expect(reflection.messages[0].content.text).toContain('Fixed the deploy script');
+    expect(reflection.messages[0].content.text).toContain('Recent entries (today)');
+
+    const recall = await prompts.get('pre_task_recall', { task: 'Make deploys retry' });
+    expect(recall.messages[0].content.text).toContain('Make deploys retry');
+    expect(recall.messages[0].content.text).toContain('Found 1 relevant entries');
+
+    const preferences = await prompts.get('summarize_user_preferences');
+    expect(preferences.messages[0].content.text).toContain('Matched section: User Context');
+  });
+
+  test('rejects unknown prompts and missing required arguments', async () => {
+    await expect(prompts.get('daily_standup')).rejects.toThrow('Unknown prompt: daily_standup');
+    await expect(prompts.get('retro_on_bug', { bug: '  ' })).rejects.toThrow('bug is required for prompt retro_on_bug');
+  });
+});
@@ -0,0 +1,84 @@
+// ABOUTME: Unit tests for exposing journal entries as MCP resources
+// ABOUTME: Tests journal:// URI parsing, paginated listing and reading entries
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { JournalManager } from '../src/journal';
+import { SearchService } from '../src/search';
+import { JournalResources, RESOURCE_PAGE_SIZE, parseResourceUri } from '../src/resources';
+
+describe('Journal resources', () => {
+  let projectTempDir: string;
+  let userTempDir: string;
+  let journalManager: JournalManager;
+  let resources: JournalResources;
+
+  beforeEach(async () => {
+    projectTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'resources-project-test-'));
+    userTempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'resources-user-test-'));
+    journalManager = new JournalManager(projectTempDir, userTempDir);
+    resources = new JournalResources(new SearchService(projectTempDir, userTempDir));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectTempDir, { recursive: true, force: true });
+    await fs.rm(userTempDir, { recursive: true, force: true });
+  });
+
+  test('parses entry reference and ID URIs only', () => {
+    expect(parseResourceUri('journal://user/2025-12-22/14-30-45-123456')).toBe('user/2025-12-22/14-30-45-123456');
+    expect(parseResourceUri('journal://id/01JFQ8Z6X3M9K2T7V4B5N0R1CD')).toBe('01JFQ8Z6X3M9K2T7V4B5N0R1CD');
+    expect(parseResourceUri('journal://user/../../etc/passwd')).toBeNull();
+    expect(parseResourceUri('journal://id/not-an-id')).toBeNull();
+    expect(parseResourceUri('file:///etc/passwd')).toBeNull();
+  });
+
+  test('lists entries with frontmatter details and reads them back', async () => {
+    const [project, user] = await journalManager.writeThoughts(
+      { project_notes: 'Resource project note', feelings: 'Resource feeling' },
+      { project: 'acme/widgets', agent: 'claude-code:2.0.67' }
+    );
+
+    const { resources: listed, nextCursor } = await resources.list();
+
+    expect(nextCursor).toBeUndefined();
+    expect(listed).toHaveLength(2);
+    const userResource = listed.find(resource => resource.uri.startsWith('journal://user/'))!;
+    expect(userResource.uri).toMatch(/^journal:\/\/user\/\d{4}-\d{2}-\d{2}\/[\w-]+$/);
+    expect(userResource.mimeType).toBe('text/markdown');
+    expect(Object.keys(userResource).sort()).toEqual(['description', 'mimeType', 'name', 'uri']);
+    expect(userResource.description).toContain(`ID: ${user.id}\nType: user\nDate: `);
+    expect(userResource.description).toContain(
+      'Sections: Feelings\nProject: acme/widgets\nAgent: claude-code:2.0.67\nTags: agentic-journal, feelings\n\nResource feeling'
+    );
+
+    const { contents } = await resources.read(userResource.uri);
+    expect(contents[0].text).toContain('Resource feeling');
+    expect((await resources.read(`journal://id/${project.id}`)).contents[0].text).toContain('Resource project note');
+  });
+
+  test('rejects unknown resources', async () => {
+    await expect(resources.read('journal://user/2025-12-22/00-00-00-000000')).rejects.toThrow('Resource not found');
+    await expect(resources.read('journal://elsewhere')).rejects.toThrow('Resource not found');
+    await expect(resources.list('abc')).rejects.toThrow('Invalid cursor');
+  });
+
+  test('paginates listings', async () => {
+    for (let i = 0; i < RESOURCE_PAGE_SIZE + 2; i++) {
+      await journalManager.writeThoughts({ project_notes: `Note ${i}` });
+    }
+
+    const first = await resources.list();
+    expect(first.resources).toHaveLength(RESOURCE_PAGE_SIZE);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await resources.list(first.nextCursor);
+    expect(second.resources).toHaveLength(2);
+    expect(second.nextCursor).toBeUndefined();
+
+    const uris = new Set([...first.resources, ...second.resources].map(resource => resource.uri));
+    expect(uris.size).toBe(RESOURCE_PAGE_SIZE + 2);
+  });
+});
@@ -0,0 +1,111 @@
+// ABOUTME: Unit tests for the journal section registry
+// ABOUTME: Tests the sections config file and writing entries with custom sections
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { DEFAULT_SECTIONS, loadSections, resolveSectionHeading } from '../src/sections';
+import { JournalManager } from '../src/journal';
+
+describe('Section registry', () => {
+  let tempDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sections-test-'));
+    originalEnv = { ...process.env };
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function useConfig(config: unknown): Promise<void> {
+    const configPath = path.join(tempDir, 'sections.json');
+    await fs.writeFile(configPath, JSON.stringify(config), 'utf8');
+    process.env.AGENTIC_JOURNAL_SECTIONS_CONFIG = configPath;
+  }
+
+  test('uses the built-in sections without a config file', async () => {
+    delete process.env.AGENTIC_JOURNAL_SECTIONS_CONFIG;
+
+    expect(await loadSections()).toBe(DEFAULT_SECTIONS);
+    expect(DEFAULT_SECTIONS.filter(section => section.scope === 'project').map(section => section.name)).toEqual(['project_notes']);
+  });
+
+  test('adds custom sections with derived headings and tags', async () => {
+    await useConfig({
+      disable: ['world_knowledge'],
+      sections: [
+        { name: 'open_questions', description: 'Questions still unanswered', scope: 'project' },
+        { name: 'incidents', description: 'Production incidents', scope: 'user', heading: 'Incident Log', tag: 'incident' }
+      ]
+    });
+
+    const sections = await loadSections();
+
+    expect(sections.map(section => section.name)).toEqual([
+      'feelings', 'project_notes', 'user_context', 'technical_insights', 'open_questions', 'incidents'
+    ]);
+    expect(sections[4]).toEqual({
+      name: 'open_questions',
+      description: 'Questions still unanswered',
+      heading: 'Open Questions',
+      tag: 'open-questions',
+      scope: 'project'
+    });
+    expect(resolveSectionHeading('incidents', sections)).toBe('Incident Log');
+    expect(resolveSectionHeading('Incident Log', sections)).toBe('Incident Log');
+  });
+
+  test('replaces a built-in section by name or all of them', async () => {
+    await useConfig({ sections: [{ name: 'feelings', description: 'Mood', scope: 'project' }] });
+    const [feelings] = await loadSections();
+    expect(feelings).toMatchObject({ name: 'feelings', scope: 'project', heading: 'Feelings' });
+
+    await useConfig({ useDefaults: false, sections: [{ name: 'decisions', description: 'Decisions made', scope: 'project' }] });
+    expect((await loadSections()).map(section => section.name)).toEqual(['decisions']);
+  });
+
+  test('reports invalid sections', async () => {
+    await useConfig({ sections: [{ name: 'Open Questions', description: 'x', scope: 'project' }] });
+    await expect(loadSections()).rejects.toThrow('Invalid section name "Open Questions"');
+
+    await useConfig({ sections: [{ name: 'decisions', description: 'x', scope: 'team' }] });
+    await expect(loadSections()).rejects.toThrow(`Invalid section "decisions": scope must be 'project' or 'user'`);
+
+    await useConfig({ useDefaults: false });
+    await expect(loadSections()).rejects.toThrow('leaves no sections');
+  });
+
+  test('writes custom sections to the journal of their scope', async () => {
+    await useConfig({
+      sections: [
+        { name: 'decisions', description: 'Decisions made', scope: 'project' },
+        { name: 'incidents', description: 'Production incidents', scope: 'user', heading: 'Incident Log', tag: 'incident' }
+      ]
+    });
+    const journalManager = new JournalManager(path.join(tempDir, 'project'), path.join(tempDir, 'user'));
+
+    const [project, user] = await journalManager.writeThoughts({
+      decisions: 'Use Postgres over SQLite',
+      project_notes: 'Migrations live in db/',
+      incidents: 'Queue backed up overnight'
+    });
+
+    const projectContent = await fs.readFile(project.path, 'utf8');
+    expect(projectContent).toContain('## Project Notes\n\nMigrations live in db/\n\n## Decisions\n\nUse Postgres over SQLite');
+    expect(projectContent).toContain('  - decisions');
+    const userContent = await fs.readFile(user.path, 'utf8');
+    expect(userContent).toContain('## Incident Log\n\nQueue backed up overnight');
+    expect(userContent).toContain('  - incident');
+
+    // Section names resolve to their headings when editing
+    await journalManager.redactSection(user.path, 'incidents');
+    expect(await fs.readFile(user.path, 'utf8')).not.toContain('Queue backed up');
+
+    await expect(journalManager.writeThoughts({ decisons: 'typo' })).rejects.toThrow('Unknown section: decisons');
+  });
+});
@@ -0,0 +1,223 @@
+// ABOUTME: Unit tests for the layered configuration
+// ABOUTME: Tests config file loading, validation and precedence of files, env vars and flags
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+import { loadSettings, resetSettings, getSettings } from '../src/settings';
+import { getEmbeddingConfig, getSearchDefaults, getUserJournalPath, isToolEnabled } from '../src/config';
+import { loadSections } from '../src/sections';
+
+describe('Layered configuration', () => {
+  let tempDir: string;
+  let projectJournalPath: string;
+  let userConfigPath: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'settings-test-'));
+    projectJournalPath = path.join(tempDir, '.private-journal');
+    await fs.mkdir(projectJournalPath);
+    userConfigPath = path.join(tempDir, 'config.yaml');
+    originalEnv = { ...process.env };
+    process.env.AGENTIC_JOURNAL_CONFIG = userConfigPath;
+    delete process.env.AGENTIC_JOURNAL_PATH;
+    delete process.env.AGENTIC_JOURNAL_VAULT;
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_PROVIDER;
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_MODEL;
+    delete process.env.AGENTIC_JOURNAL_SECTIONS_CONFIG;
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    resetSettings();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('reads a YAML user file and a JSON project file, project winning', async () => {
+    await fs.writeFile(userConfigPath, [
+      'userJournalPath: /journals/user',
+      'embedding:',
+      '  provider: hashing',
+      '  model: hashing-v1',
+      'search:',
+      '  limit: 20',
+      '  minScore: 0.3'
+    ].join('\n'), 'utf8');
+    await fs.writeFile(path.join(projectJournalPath, 'config'), JSON.stringify({
+      search: { limit: 5 }
+    }), 'utf8');
+
+    const files = await loadSettings(projectJournalPath);
+
+    expect(files).toEqual([userConfigPath, path.join(projectJournalPath, 'config')]);
+    expect(getEmbeddingConfig()).toMatchObject({ provider: 'hashing', model: 'hashing-v1' });
+    expect(getSearchDefaults()).toEqual({ limit: 5, minScore: 0.3, days: 30 });
+    expect(await getUserJournalPath()).toBe('/journals/user');
+  });
+
+  test('env vars override config files and command line flags override both', async () => {
+    await fs.writeFile(userConfigPath, 'userJournalPath: /from/file\nembedding:\n  model: from-file\n', 'utf8');
+    process.env.AGENTIC_JOURNAL_PATH = '/from/env';
+    process.env.AGENTIC_JOURNAL_EMBEDDING_MODEL = 'from-env';
+
+    await loadSettings(projectJournalPath, { embedding: { model: 'from-flag' } });
+
+    expect(await getUserJournalPath()).toBe('/from/env');
+    expect(getEmbeddingConfig().model).toBe('from-flag');
+  });
+
+  test('finds the user file in the XDG config directory', async () => {
+    delete process.env.AGENTIC_JOURNAL_CONFIG;
+    delete process.env.APPDATA;
+    process.env.XDG_CONFIG_HOME = path.join(tempDir, 'xdg');
+    await fs.mkdir(path.join(tempDir, 'xdg', 'private-journal'), { recursive: true });
+    const configPath = path.join(tempDir, 'xdg', 'private-journal', 'config.json');
+    await fs.writeFile(configPath, JSON.stringify({ search: { days: 7 } }), 'utf8');
+
+    expect(await loadSettings(projectJournalPath)).toEqual([configPath]);
+    expect(getSearchDefaults().days).toBe(7);
+  });
+
+  test('uses built-in defaults without config files', async () => {
+    delete process.env.AGENTIC_JOURNAL_CONFIG;
+    delete process.env.APPDATA;
+    process.env.XDG_CONFIG_HOME = path.join(tempDir, 'xdg');
+
+    expect(await loadSettings(projectJournalPath)).toEqual([]);
+
+    expect(getSettings()).toEqual({});
+    expect(getSearchDefaults()).toEqual({ limit: 10, minScore: 0.1, days: 30 });
+    expect(isToolEnabled('search_journal')).toBe(true);
+  });
+
+  test('enables and disables tools', async () => {
+    await fs.writeFile(userConfigPath, 'tools:\n  enabled: [process_thoughts, search_journal, delete_journal_entry]\n', 'utf8');
+    await fs.writeFile(path.join(projectJournalPath, 'config.yml'), 'tools:\n  disabled: [delete_journal_entry]\n', 'utf8');
+
+    await loadSettings(projectJournalPath);
+
+    expect(isToolEnabled('search_journal')).toBe(true);
+    expect(isToolEnabled('delete_journal_entry')).toBe(false);
+    expect(isToolEnabled('reindex_journal')).toBe(false);
+  });
+
+  test('takes sections from the config file', async () => {
+    await fs.writeFile(userConfigPath, [
+      'sections:',
+      '  useDefaults: false',
+      '  sections:',
+      '    - name: decisions',
+      '      description: Decisions and their reasons',
+      '      scope: project'
+    ].join('\n'), 'utf8');
+
+    await loadSettings(projectJournalPath);
+
+    expect((await loadSections()).map(section => section.heading)).toEqual(['Decisions']);
+  });
+
+  test('keeps a project file from changing private settings', async () => {
+    await fs.writeFile(userConfigPath, [
+      'userJournalPath: /journals/user',
+      'embedding:',
+      '  provider: hashing',
+      'redaction:',
+      '  disable: [jwt]'
+    ].join('\n'), 'utf8');
+    await fs.writeFile(path.join(projectJournalPath, 'config.yaml'), [
+      'userJournalPath: /repo/journal',
+      'vault: Shared',
+      'embedding:',
+      '  provider: openai',
+      '  url: https://embeddings.example.com/v1',
+      '  apiKey: sk-project',
+      'redaction:',
+      '  useDefaults: false',
+      'search:',
+      '  days: 7',
+      'sections:',
+      '  useDefaults: false',
+      '  disable: [user_context]',
+      '  sections:',
+      '    - name: feelings',
+      '      description: Shared with the team',
+      '      scope: project',
+      '    - name: diary',
+      '      description: Private diary',
+      '      scope: user',
+      '    - name: decisions',
+      '      description: Decisions and their reasons',
+      '      scope: project'
+    ].join('\n'), 'utf8');
+    delete process.env.AGENTIC_JOURNAL_EMBEDDING_API_KEY;
+    const warnings = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      await loadSettings(projectJournalPath);
+
+      expect(await getUserJournalPath()).toBe('/journals/user');
+      expect(getSettings()).toEqual({
+        userJournalPath: '/journals/user',
+        embedding: { provider: 'hashing' },
+        redaction: { disable: ['jwt'] },
+        search: { days: 7 }
+      });
+      expect(getEmbeddingConfig()).toMatchObject({ provider: 'hashing', apiKey: undefined });
+
+      const sections = await loadSections();
+      expect(sections.map(section => section.name)).toEqual(
+        ['feelings', 'project_notes', 'user_context', 'technical_insights', 'world_knowledge', 'decisions']);
+      expect(sections.find(section => section.name === 'feelings')!.scope).toBe('user');
+
+      const messages = warnings.mock.calls.map(call => String(call[0]));
+      for (const key of ['userJournalPath', 'vault', 'embedding', 'redaction', 'sections.useDefaults', 'sections.disable', 'sections.diary']) {
+        expect(messages).toContainEqual(expect.stringContaining(`Ignoring setting "${key}" in project config file`));
+      }
+      expect(messages).toContainEqual(expect.stringContaining('Ignoring section "feelings"'));
+    } finally {
+      warnings.mockRestore();
+    }
+  });
+
+  test('keeps a project file from enabling tools the user turned off', async () => {
+    await fs.writeFile(userConfigPath, 'tools:\n  disabled: [delete_journal_entry]\n', 'utf8');
+    const projectConfigPath = path.join(projectJournalPath, 'config.yaml');
+    await fs.writeFile(projectConfigPath, 'tools:\n  disabled: []\n  enabled: [delete_journal_entry, search_journal]\n', 'utf8');
+
+    await loadSettings(projectJournalPath);
+
+    expect(isToolEnabled('delete_journal_entry')).toBe(false);
+    expect(isToolEnabled('search_journal')).toBe(true);
+    expect(isToolEnabled('process_thoughts')).toBe(false);
+
+    await fs.writeFile(userConfigPath, 'tools:\n  enabled: [process_thoughts, search_journal]\n', 'utf8');
+    await fs.writeFile(projectConfigPath, 'tools:\n  enabled: [search_journal, delete_journal_entry]\n  disabled: [process_thoughts]\n', 'utf8');
+
+    await loadSettings(projectJournalPath);
+
+    expect(getSettings().tools).toEqual({ enabled: ['search_journal'], disabled: ['process_thoughts'] });
+    expect(isToolEnabled('delete_journal_entry')).toBe(false);
+  });
+
+  test('reports invalid settings with the file they come from', async () => {
+    await fs.writeFile(userConfigPath, 'embedding:\n  provider: word2vec\n', 'utf8');
+    await expect(loadSettings(projectJournalPath)).rejects.toThrow(
+      `Invalid setting "embedding.provider" in ${userConfigPath}: expected transformers, hashing or openai`
+    );
+
+    await fs.writeFile(userConfigPath, 'search:\n  limt: 5\n', 'utf8');
+    await expect(loadSettings(projectJournalPath)).rejects.toThrow(`Unknown setting "search.limt" in ${userConfigPath}`);
+
+    await fs.writeFile(userConfigPath, 'search: [1, 2', 'utf8');
+    await expect(loadSettings(projectJournalPath)).rejects.toThrow(`Invalid config file ${userConfigPath}`);
+  });
+
+  test('validates command line settings too', async () => {
+    await fs.writeFile(userConfigPath, '', 'utf8');
+    await expect(loadSettings(projectJournalPath, { embedding: { storage: 'sqlite' } })).rejects.toThrow(
+      'Invalid setting "embedding.storage" in command line: expected json or packed'
+    );
+  });
+});
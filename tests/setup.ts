@@ -1,6 +1,8 @@
 // Global test setup
 // Mock the transformers library to avoid ES module issues in Jest
 jest.mock('@xenova/transformers', () => ({
+  // Model locations; tests that need a cached model point cacheDir at a temp dir
+  env: { allowLocalModels: false, localModelPath: '/models/', cacheDir: '/nonexistent/transformers-cache/' },
   pipeline: jest.fn().mockResolvedValue(
     jest.fn().mockResolvedValue({
       data: new Float32Array([0.1, 0.2, 0.3, 0.4, 0.5]) // Mock embedding vector